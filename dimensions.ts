@@ -2,7 +2,7 @@ import { QuantityError } from "./error.ts";
 
 /**
  * How many basic dimensions there are
- * (mass, length, time, temp, current, substance, information, reserved)
+ * (mass, length, time, temp, current, substance, luminous intensity, information)
  *
  * As opposed to custom dimensions, like "flurbs per bloop" which has two
  * custom dimensions (flurbs and bloops).
@@ -11,7 +11,7 @@ const numBasicDimensions = 8;
 
 const emptyArray = Object.freeze([]);
 
-// TODO: add an angle dimension, like Boost and Mathematica do.
+// Angles (rad, deg, etc.) don't have their own dimension: like the SI, we treat them as dimensionless.
 
 /**
  * The dimensions of a Quantity value.
@@ -32,8 +32,8 @@ export class Dimensions {
             temperature: number,
             current: number,
             substance: number,
+            luminosity: number,
             information: number,
-            reserved: number, // for luminosity or angle or ?
             /**
              * Track custom dimensions.
              *
@@ -166,16 +166,46 @@ export class Dimensions {
         return new Dimensions(newDimArray, this.customDimensionNames);
     }
 
-    /** Raise these dimensions to a power */
+    /**
+     * Raise these dimensions to a power.
+     *
+     * n doesn't have to be an integer, as long as the resulting dimensions are all integers.
+     * e.g. `m^2` to the power of 0.5 is `m`, but `m` to the power of 0.5 is an error.
+     */
     public pow(n: number): Dimensions {
         if (n === 1) {
             return this;
         } else if (n === 0) {
             return Dimensionless;
-        } else if (!Number.isInteger(n)) {
-            throw new QuantityError(`Dimensions.pow(n): n must be an integer`);
+        } else if (!isFinite(n)) {
+            throw new QuantityError(`Dimensions.pow(n): n must be a finite number`);
         }
         const newDimArray = this.dimensions.map((d) => d * n) as typeof this.dimensions;
+        if (!newDimArray.every(Number.isInteger)) {
+            throw new QuantityError(
+                `Cannot raise dimensions ${this} to the power ${n}, because the result would have fractional dimensions.`,
+            );
+        }
+        return new Dimensions(newDimArray, this.customDimensionNames);
+    }
+
+    /**
+     * Take the nth root of these dimensions, e.g. the square root (n=2) of `m^2` is `m`.
+     *
+     * Every dimension must be evenly divisible by n, so the square root of `m` is an error.
+     */
+    public root(n: number): Dimensions {
+        if (!Number.isInteger(n) || n < 1) {
+            throw new QuantityError(`Dimensions.root(n): n must be a positive integer`);
+        } else if (n === 1) {
+            return this;
+        }
+        if (!this.dimensions.every((d) => d % n === 0)) {
+            throw new QuantityError(
+                `Cannot take root ${n} of dimensions ${this}, because the result would have fractional dimensions.`,
+            );
+        }
+        const newDimArray = this.dimensions.map((d) => d / n) as typeof this.dimensions;
         return new Dimensions(newDimArray, this.customDimensionNames);
     }
 
@@ -219,3 +249,160 @@ export class Dimensions {
  * Likewise an SI expression like "1 μm/m" is dimensionless after simplification.
  */
 export const Dimensionless: Dimensions = new Dimensions([0, 0, 0, 0, 0, 0, 0, 0]);
+
+/**
+ * The most units that {@link solveForUnitPowers} will combine when searching for the simplest way to express some
+ * dimensions. Trying every larger combination would take too long.
+ */
+const maxCombinedUnits = 4;
+
+/**
+ * Find the simplest way to express the target dimensions as a product of integer powers of the given unit
+ * dimensions. e.g. current (amperes) can be expressed as `C^1⋅s^-1` using [coulombs, seconds].
+ *
+ * "Simplest" means the fewest units, then the fewest powers above 2 (so "W/m^2" is simpler than "kg/s^3"), then the
+ * least complex units (the sum of the absolute powers, where each unit counts more if it has more dimensions, so
+ * "m^2/s" is simpler than "V/T"), then the smallest sum of the absolute powers (so "J/kg" is simpler than
+ * "m^2/s^2"), then not having every unit in the denominator (e.g. "S" rather than "ohm^-1"), then the units that come
+ * first in the list.
+ * Each unit in the result has to be independent of the others, so the powers are unique.
+ *
+ * Returns the power of each unit in `units` (zero for units that aren't used), or undefined if the target can't be
+ * expressed using integer powers of the units (e.g. `m` using [`m^2`]).
+ *
+ * If only one of the units has some dimension (e.g. "mol"), its power is fixed, so it's used (or skipped) right away.
+ * Then this tries each combination of up to four of the other units (see `maxCombinedUnits`), from the smallest to
+ * the largest, and uses Gauss–Jordan elimination (with exact integer arithmetic) to solve for the powers of each
+ * combination. If that doesn't work, it uses one unit for each dimension (like "kg⋅m^2⋅K/s^3"), if the list has them.
+ */
+export function solveForUnitPowers(target: Dimensions, units: readonly Dimensions[]): number[] | undefined {
+    const result = new Array<number>(units.length).fill(0);
+    if (target.isDimensionless) return result;
+
+    // Convert everything to plain vectors of exponents, with a consistent set of custom dimensions:
+    const customNames = Array.from(new Set([target, ...units].flatMap((d) => d.customDimensionNames)));
+    const toVector = (d: Dimensions) => [
+        ...d.dimensions.slice(0, numBasicDimensions),
+        ...customNames.map((name) => {
+            const idx = d.customDimensionNames.indexOf(name);
+            return idx === -1 ? 0 : d.dimensions[numBasicDimensions + idx];
+        }),
+    ];
+    const targetVector = toVector(target);
+    const unitVectors = units.map(toVector);
+    // Dimensionless units (like "%") can never help, and neither can a unit with the same dimensions as an earlier one:
+    const seenVectors = new Set<string>();
+    let candidates = units.flatMap((d, i) => {
+        const key = unitVectors[i].join();
+        if (d.isDimensionless || seenVectors.has(key)) return [];
+        seenVectors.add(key);
+        return [i];
+    });
+
+    // If only one unit has some dimension, its power is fixed by the target (or it can't be used at all if the target
+    // doesn't have that dimension), so take it out of the search:
+    for (let changed = true; changed;) {
+        changed = false;
+        for (let row = 0; row < targetVector.length; row++) {
+            const unitsWithRow = candidates.filter((i) => unitVectors[i][row] !== 0);
+            if (unitsWithRow.length === 0 && targetVector[row] !== 0) return undefined;
+            if (unitsWithRow.length !== 1) continue;
+            const unitIdx = unitsWithRow[0];
+            const power = targetVector[row] / unitVectors[unitIdx][row];
+            if (!Number.isInteger(power)) return undefined;
+            result[unitIdx] = power;
+            unitVectors[unitIdx].forEach((value, r) => targetVector[r] -= value * power);
+            candidates = candidates.filter((i) => i !== unitIdx);
+            changed = true;
+        }
+    }
+    // Every remaining dimension of the target must be covered by at least one of the chosen units:
+    const neededRows = targetVector.flatMap((value, row) => value === 0 ? [] : [row]);
+    if (neededRows.length === 0) return result;
+
+    const maxUnits = Math.min(candidates.length, targetVector.length, maxCombinedUnits);
+    for (let numUnits = 1; numUnits <= maxUnits; numUnits++) {
+        let best: { indices: number[]; powers: number[]; cost: number[] } | undefined;
+        for (const indices of combinations(candidates, numUnits)) {
+            if (!neededRows.every((row) => indices.some((i) => unitVectors[i][row] !== 0))) continue;
+            const powers = solveExactly(indices.map((i) => unitVectors[i]), targetVector);
+            if (powers === undefined) continue;
+            const cost = [
+                powers.filter((p) => Math.abs(p) > 2).length,
+                powers.reduce((sum, p, i) => sum + Math.abs(p) * (1 + units[indices[i]].dimensionality), 0),
+                powers.reduce((sum, p) => sum + Math.abs(p), 0),
+                powers.every((p) => p < 0) ? 1 : 0,
+            ];
+            // Combinations are generated in order, so if there's a tie, the first one uses the earlier units.
+            const bestCost = best?.cost;
+            const diff = bestCost ? cost.map((c, i) => c - bestCost[i]).find((d) => d !== 0) : -1;
+            if (diff !== undefined && diff < 0) {
+                best = { indices, powers, cost };
+            }
+        }
+        if (best) {
+            best.indices.forEach((unitIdx, i) => result[unitIdx] = best.powers[i]);
+            return result;
+        }
+    }
+
+    // Otherwise, use a unit that has only that dimension (like "kg") for each remaining dimension:
+    for (const row of neededRows) {
+        const unitIdx = candidates.find((i) =>
+            unitVectors[i].every((value, r) => (value !== 0) === (r === row)) &&
+            Number.isInteger(targetVector[row] / unitVectors[i][row])
+        );
+        if (unitIdx === undefined) return undefined;
+        result[unitIdx] = targetVector[row] / unitVectors[unitIdx][row];
+    }
+    return result;
+}
+
+/** Generate every combination of `size` items from the list, in order. */
+function* combinations<T>(items: readonly T[], size: number, start = 0): Generator<T[]> {
+    if (size === 0) {
+        yield [];
+        return;
+    }
+    for (let i = start; i <= items.length - size; i++) {
+        for (const rest of combinations(items, size - 1, i + 1)) {
+            yield [items[i], ...rest];
+        }
+    }
+}
+
+/**
+ * Solve `columns × x = target` for x using Gauss–Jordan elimination with exact integer arithmetic.
+ * Returns undefined unless there's a unique solution where every value of x is a non-zero integer.
+ */
+function solveExactly(columns: readonly number[][], target: readonly number[]): number[] | undefined {
+    const numCols = columns.length;
+    // The augmented matrix [columns | target], one row per dimension:
+    const matrix = target.map((value, row) => [...columns.map((column) => column[row]), value]);
+    for (let col = 0; col < numCols; col++) {
+        const pivotRow = matrix.findIndex((row, r) => r >= col && row[col] !== 0);
+        if (pivotRow === -1) return undefined; // The columns are not independent
+        [matrix[col], matrix[pivotRow]] = [matrix[pivotRow], matrix[col]];
+        const pivot = matrix[col];
+        for (let r = 0; r < matrix.length; r++) {
+            const factor = matrix[r][col];
+            if (r === col || factor === 0) continue;
+            // Eliminate this column from the row without using fractions, then keep the numbers small:
+            const newRow = matrix[r].map((value, c) => value * pivot[col] - pivot[c] * factor);
+            const divisor = newRow.reduce(gcd, 0);
+            matrix[r] = divisor > 1 ? newRow.map((value) => value / divisor) : newRow;
+        }
+    }
+    // Any remaining rows must be all zeros, or the equations are inconsistent (there's no solution):
+    if (matrix.slice(numCols).some((row) => row[numCols] !== 0)) return undefined;
+    const solution = matrix.slice(0, numCols).map((row, i) => row[numCols] / row[i]);
+    return solution.every((x) => Number.isInteger(x) && x !== 0) ? solution : undefined;
+}
+
+/** Greatest common divisor of two integers (always positive, unless both are zero) */
+function gcd(a: number, b: number): number {
+    a = Math.abs(a);
+    b = Math.abs(b);
+    while (b) [a, b] = [b, a % b];
+    return a;
+}
@@ -0,0 +1,206 @@
+import { QuantityError } from "./error.ts";
+import type { SerializedQuantity } from "./quantity.ts";
+import { toSuperscript } from "./units.ts";
+
+/** Options for {@link Quantity.format} */
+export interface FormatOptions {
+    /**
+     * How to write the magnitude:
+     * - `"auto"` (default): like `toString()`, using scientific notation only for very large or very small numbers
+     * - `"fixed"`: always write the number in full, e.g. `1234000`
+     * - `"scientific"`: e.g. `1.234×10^6`
+     * - `"engineering"`: scientific notation where the exponent is a multiple of three, e.g. `1.234×10^6` or
+     *   `12.3×10^-3`. (`×10^0` is left out.)
+     */
+    notation?: "auto" | "fixed" | "scientific" | "engineering";
+    /**
+     * Round the magnitude to this many digits after the decimal point. (In scientific or engineering notation, this
+     * is the number of decimal places of the coefficient, e.g. `1.23×10^6` has two.) Must be an integer from 0 to 100.
+     */
+    decimalPlaces?: number;
+    /** Round the magnitude to this many significant digits. Cannot be used together with `decimalPlaces`. */
+    significantDigits?: number;
+    /** Separator to put between groups of three digits, e.g. `","` for `1,234,000`, or a thin space (`"\u2009"`) */
+    groupSeparator?: string;
+    /**
+     * How to write the uncertainty/tolerance, if there is one:
+     * - `"plusMinus"` (default): e.g. `1.234±0.012 m`
+     * - `"concise"`: e.g. `1.234(12) m`, where the number in parentheses is the uncertainty in the last digits
+     *
+     * Asymmetric tolerances are always written like `10 +0.2 -0.1 mm`.
+     */
+    uncertainty?: "plusMinus" | "concise";
+    /**
+     * What to put between the number and the units. Default is a space; a narrow no-break space (`"\u202F"`) is also
+     * common.
+     */
+    unitSeparator?: string;
+    /** Write exponents using Unicode superscripts, e.g. `1.2×10⁶ m²` instead of `1.2×10^6 m^2` */
+    superscripts?: boolean;
+}
+
+/** A decimal number, as a string of digits and a power of ten: `digits × 10^exponent` */
+export interface Decimal {
+    negative: boolean;
+    /** The digits, with no leading zeros (unless the value is zero, in which case this is "0") */
+    digits: string;
+    exponent: number;
+}
+
+/** Parse the output of `Number.toExponential()` or `Number.toFixed()` into a Decimal */
+function parseDecimal(str: string): Decimal {
+    const [mantissa, exponentPart] = str.split("e");
+    const negative = mantissa.startsWith("-");
+    const [integerPart, fractionPart = ""] = mantissa.replace("-", "").split(".");
+    const digits = (integerPart + fractionPart).replace(/^0+(?=\d)/, "");
+    return { negative, digits, exponent: Number(exponentPart ?? 0) - fractionPart.length };
+}
+
+/** Round a number to the given number of decimal places. If `decimalPlaces` is negative, round to tens, hundreds, etc. */
+function roundToDecimalPlaces(n: number, decimalPlaces: number): Decimal {
+    if (decimalPlaces >= 0 && decimalPlaces <= 100 && Math.abs(n) < 1e21) {
+        return parseDecimal(n.toFixed(decimalPlaces));
+    }
+    const rounded = Math.round(Math.abs(n) / 10 ** -decimalPlaces);
+    return { negative: n < 0, digits: BigInt(rounded).toString(), exponent: -decimalPlaces };
+}
+
+/** Round a number to the given number of significant digits */
+function roundToSignificantDigits(n: number, significantDigits: number): Decimal {
+    if (!Number.isInteger(significantDigits) || significantDigits < 1 || significantDigits > 100) {
+        throw new QuantityError(`Invalid number of significant digits: ${significantDigits}`);
+    }
+    return parseDecimal(n.toExponential(significantDigits - 1));
+}
+
+/**
+ * Round an uncertainty/error/tolerance value for display. If the first significant digit is 1, it is rounded to two
+ * significant digits, otherwise to one. (This is the same rule that `Quantity.toString()` uses.)
+ */
+function roundUncertainty(n: number): Decimal {
+    const twoDigits = roundToSignificantDigits(n, 2);
+    return twoDigits.digits.startsWith("1") ? twoDigits : roundToSignificantDigits(n, 1);
+}
+
+/** Get the power of ten of the first significant digit of a Decimal, e.g. 2 for 123 or -3 for 0.00123 */
+function orderOfMagnitude(d: Decimal): number {
+    return d.digits === "0" ? 0 : d.digits.length - 1 + d.exponent;
+}
+
+/** Write a Decimal as a regular decimal number string, e.g. "1234.5", dividing it by 10^shift first */
+export function decimalToString(d: Decimal, shift: number, groupSeparator: string): string {
+    const exponent = d.exponent - shift;
+    let integerPart: string;
+    let fractionPart = "";
+    if (exponent >= 0) {
+        integerPart = d.digits === "0" ? "0" : d.digits + "0".repeat(exponent);
+    } else {
+        const padded = d.digits.padStart(-exponent + 1, "0");
+        integerPart = padded.substring(0, padded.length + exponent);
+        fractionPart = padded.substring(padded.length + exponent);
+    }
+    if (groupSeparator) {
+        integerPart = integerPart.replace(/\B(?=(\d{3})+$)/g, groupSeparator);
+    }
+    return (d.negative ? "-" : "") + integerPart + (fractionPart ? "." + fractionPart : "");
+}
+
+/**
+ * Round the magnitude and uncertainty of a serialized Quantity for display, as described in {@link FormatOptions}.
+ *
+ * Returns the rounded values, and the power of ten that they should be written with (for scientific or engineering
+ * notation).
+ */
+export function roundForDisplay(
+    serialized: SerializedQuantity,
+    options: Pick<FormatOptions, "notation" | "decimalPlaces" | "significantDigits" | "uncertainty">,
+): { magnitude: Decimal; plusMinus?: Decimal; plus?: Decimal; minus?: Decimal; shift: number } {
+    const { magnitude, plusMinus, plus, minus } = serialized;
+    // Asymmetric tolerances are rounded the same way as plusMinus values:
+    const tolerances = plusMinus ? [plusMinus] : plus !== undefined && minus !== undefined ? [plus, minus] : [];
+    const notation = options.notation ?? "auto";
+    const significantDigits = options.significantDigits ??
+        (options.decimalPlaces === undefined ? serialized.significantFigures : undefined);
+    if (options.decimalPlaces !== undefined && options.significantDigits !== undefined) {
+        throw new QuantityError("Cannot specify both decimalPlaces and significantDigits.");
+    }
+    const decimalPlaces = options.decimalPlaces;
+    if (decimalPlaces !== undefined && (!Number.isInteger(decimalPlaces) || decimalPlaces < 0 || decimalPlaces > 100)) {
+        throw new QuantityError(`Invalid number of decimal places: ${decimalPlaces}`);
+    }
+
+    // Figure out the power of ten that the number will be multiplied by (for scientific/engineering notation):
+    const getShift = (d: Decimal): number => {
+        const order = orderOfMagnitude(d);
+        if (notation === "scientific") return order;
+        if (notation === "engineering") return Math.floor(order / 3) * 3;
+        if (notation === "auto" && (order >= 21 || order <= -7)) return order; // Same cutoffs as Number.toString()
+        return 0;
+    };
+
+    let roundedMagnitude: Decimal;
+    let roundedTolerances: Decimal[];
+    let shift: number;
+    if (decimalPlaces !== undefined) {
+        // Round to the given number of decimal places. In scientific/engineering notation, the rounding can change
+        // the exponent (e.g. 9.99 becomes 10.0), in which case we need to round again using the new exponent.
+        shift = getShift(parseDecimal(magnitude.toExponential()));
+        roundedMagnitude = roundToDecimalPlaces(magnitude, decimalPlaces - shift);
+        if (getShift(roundedMagnitude) !== shift) {
+            shift = getShift(roundedMagnitude);
+            roundedMagnitude = roundToDecimalPlaces(magnitude, decimalPlaces - shift);
+        }
+        roundedTolerances = tolerances.map((t) => roundToDecimalPlaces(t, -roundedMagnitude.exponent));
+    } else if (significantDigits !== undefined) {
+        roundedMagnitude = roundToSignificantDigits(magnitude, significantDigits);
+        shift = getShift(roundedMagnitude);
+        roundedTolerances = tolerances.map((t) =>
+            options.uncertainty === "concise" && plusMinus
+                ? roundToDecimalPlaces(t, -roundedMagnitude.exponent)
+                : roundUncertainty(t)
+        );
+    } else if (tolerances.length > 0) {
+        // Round the uncertainty to one or two significant digits, and the magnitude to the same decimal place
+        // (or to the more precise of the two, for an asymmetric tolerance):
+        roundedTolerances = tolerances.map(roundUncertainty);
+        roundedMagnitude = roundToDecimalPlaces(magnitude, -Math.min(...roundedTolerances.map((t) => t.exponent)));
+        shift = getShift(roundedMagnitude);
+    } else {
+        roundedMagnitude = parseDecimal(magnitude.toExponential());
+        roundedTolerances = [];
+        shift = getShift(roundedMagnitude);
+    }
+    if (roundedTolerances.length === 2) {
+        return { magnitude: roundedMagnitude, plus: roundedTolerances[0], minus: roundedTolerances[1], shift };
+    }
+    return { magnitude: roundedMagnitude, plusMinus: roundedTolerances[0], shift };
+}
+
+/**
+ * Format a serialized Quantity as a string, using the given options. See {@link Quantity.format}.
+ */
+export function formatQuantity(serialized: SerializedQuantity, options: FormatOptions = {}): string {
+    const groupSeparator = options.groupSeparator ?? "";
+    const { magnitude, plusMinus, plus, minus, shift } = roundForDisplay(serialized, options);
+
+    let result = decimalToString(magnitude, shift, groupSeparator);
+    if (plus && minus) {
+        result += ` +${decimalToString(plus, shift, groupSeparator)} -${decimalToString(minus, shift, groupSeparator)}`;
+        if (shift !== 0) result = `(${result})`;
+    } else if (plusMinus) {
+        if (options.uncertainty === "concise") {
+            // Write the uncertainty in units of the last digit of the magnitude, e.g. 1.234(12)
+            result += `(${plusMinus.digits})`;
+        } else {
+            result += "±" + decimalToString(plusMinus, shift, groupSeparator);
+            if (shift !== 0) result = `(${result})`;
+        }
+    }
+    if (shift !== 0 || options.notation === "scientific") {
+        result += "×10" + (options.superscripts ? toSuperscript(shift) : `^${shift}`);
+    }
+    if (serialized.units.length > 0) {
+        result += (options.unitSeparator ?? " ") + serialized.units;
+    }
+    return result;
+}
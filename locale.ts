@@ -0,0 +1,404 @@
+import { type Decimal, decimalToString, type FormatOptions, roundForDisplay } from "./format.ts";
+import type { SerializedQuantity } from "./quantity.ts";
+import { type ParsedUnit, type Prefix, toUnitString } from "./units.ts";
+
+/** The localized names of a unit */
+export interface LocalizedUnitName {
+    /** The localized symbol, if it's different from the usual one (e.g. "o" instead of "B" for bytes in French) */
+    readonly short?: string;
+    /**
+     * The full name of the unit, e.g. "meter". If the name has plural forms, use an object whose keys are the plural
+     * categories from `Intl.PluralRules`, e.g. `{ one: "meter", other: "meters" }`.
+     */
+    readonly long?: string | Readonly<Partial<Record<Intl.LDMLPluralRule, string>> & { other: string }>;
+}
+
+/** The names of units and prefixes in a particular language, used by {@link Quantity.toLocaleString} */
+export interface UnitLocale {
+    /** The full names of the prefixes, e.g. `{ k: "kilo", Ki: "kibi" }` */
+    readonly prefixes: Readonly<Partial<Record<Prefix, string>>>;
+    /** The localized names of the units, keyed by their usual symbol (the keys of `builtInUnits`), e.g. `m` */
+    readonly units: Readonly<Record<string, LocalizedUnitName>>;
+    /** How to write the full name of a unit like "km/h": "{0}" is the numerator, "{1}" the denominator */
+    readonly per: string;
+    /** Capitalize the full names of units? (e.g. German "Kilometer") */
+    readonly capitalize?: boolean;
+    /** What to put between the number and the full name of the unit. Default is a space. */
+    readonly longUnitSeparator?: string;
+}
+
+/** Options for {@link Quantity.toLocaleString} */
+export interface LocaleFormatOptions extends Pick<FormatOptions, "decimalPlaces" | "significantDigits"> {
+    /** Write units using their symbols (`"short"`, the default, e.g. "5 km") or full names (`"long"`, "5 kilometers") */
+    unitDisplay?: "short" | "long";
+    /** Additional options for `Intl.NumberFormat`, e.g. `{ useGrouping: false }` */
+    numberFormat?: Intl.NumberFormatOptions;
+    /** Use these unit names instead of the ones registered for the locale (see {@link registerUnitLocale}) */
+    unitNames?: UnitLocale;
+}
+
+const siPrefixesEn = {
+    q: "quecto",
+    r: "ronto",
+    y: "yocto",
+    z: "zepto",
+    a: "atto",
+    f: "femto",
+    p: "pico",
+    n: "nano",
+    u: "micro",
+    µ: "micro",
+    m: "milli",
+    c: "centi",
+    d: "deci",
+    h: "hecto",
+    k: "kilo",
+    M: "mega",
+    G: "giga",
+    T: "tera",
+    P: "peta",
+    E: "exa",
+    Z: "zetta",
+    Y: "yotta",
+    R: "ronna",
+    Q: "quetta",
+    Ki: "kibi",
+    Mi: "mebi",
+    Gi: "gibi",
+    Ti: "tebi",
+    Pi: "pebi",
+    Ei: "exbi",
+    Zi: "zebi",
+    Yi: "yobi",
+} as const satisfies Record<Prefix, string>;
+
+const en: UnitLocale = {
+    prefixes: siPrefixesEn,
+    units: {
+        "%": { long: "percent" },
+        g: { long: { one: "gram", other: "grams" } },
+        lb: { long: { one: "pound", other: "pounds" } },
+        m: { long: { one: "meter", other: "meters" } },
+        in: { long: { one: "inch", other: "inches" } },
+        ft: { long: { one: "foot", other: "feet" } },
+        mi: { long: { one: "mile", other: "miles" } },
+        s: { long: { one: "second", other: "seconds" } },
+        min: { long: { one: "minute", other: "minutes" } },
+        h: { long: { one: "hour", other: "hours" } },
+        day: { long: { one: "day", other: "days" } },
+        week: { long: { one: "week", other: "weeks" } },
+        yr: { long: { one: "year", other: "years" } },
+        K: { long: { one: "kelvin", other: "kelvins" } },
+        degC: { short: "°C", long: { one: "degree Celsius", other: "degrees Celsius" } },
+        degF: { short: "°F", long: { one: "degree Fahrenheit", other: "degrees Fahrenheit" } },
+        degR: { short: "°R", long: { one: "degree Rankine", other: "degrees Rankine" } },
+        Pa: { long: { one: "pascal", other: "pascals" } },
+        N: { long: { one: "newton", other: "newtons" } },
+        J: { long: { one: "joule", other: "joules" } },
+        W: { long: { one: "watt", other: "watts" } },
+        L: { long: { one: "liter", other: "liters" } },
+        ha: { long: { one: "hectare", other: "hectares" } },
+        b: { long: { one: "bit", other: "bits" } },
+        B: { long: { one: "byte", other: "bytes" } },
+        A: { long: { one: "ampere", other: "amperes" } },
+        C: { long: { one: "coulomb", other: "coulombs" } },
+        V: { long: { one: "volt", other: "volts" } },
+        ohm: { short: "Ω", long: { one: "ohm", other: "ohms" } },
+        mol: { long: { one: "mole", other: "moles" } },
+        Hz: { long: "hertz" },
+        rad: { long: { one: "radian", other: "radians" } },
+        deg: { long: { one: "degree", other: "degrees" } },
+        rev: { long: { one: "revolution", other: "revolutions" } },
+        rpm: { long: "revolutions per minute" },
+        cd: { long: { one: "candela", other: "candelas" } },
+        lm: { long: { one: "lumen", other: "lumens" } },
+        lx: { long: "lux" },
+        Bq: { long: { one: "becquerel", other: "becquerels" } },
+        Gy: { long: { one: "gray", other: "grays" } },
+        Sv: { long: { one: "sievert", other: "sieverts" } },
+        dB: { long: { one: "decibel", other: "decibels" } },
+        Np: { long: { one: "neper", other: "nepers" } },
+        pH_value: { short: "pH", long: "pH" },
+    },
+    per: "{0} per {1}",
+};
+
+const fr: UnitLocale = {
+    prefixes: {
+        ...siPrefixesEn,
+        d: "déci",
+        M: "méga",
+        T: "téra",
+        P: "péta",
+        Mi: "mébi",
+        Ti: "tébi",
+        Pi: "pébi",
+        Zi: "zébi",
+    },
+    units: {
+        "%": { long: "pour cent" },
+        g: { long: { one: "gramme", other: "grammes" } },
+        m: { long: { one: "mètre", other: "mètres" } },
+        s: { long: { one: "seconde", other: "secondes" } },
+        min: { long: { one: "minute", other: "minutes" } },
+        h: { long: { one: "heure", other: "heures" } },
+        day: { short: "j", long: { one: "jour", other: "jours" } },
+        week: { long: { one: "semaine", other: "semaines" } },
+        yr: { short: "a", long: { one: "an", other: "ans" } },
+        K: { long: { one: "kelvin", other: "kelvins" } },
+        degC: { short: "°C", long: { one: "degré Celsius", other: "degrés Celsius" } },
+        Pa: { long: { one: "pascal", other: "pascals" } },
+        N: { long: { one: "newton", other: "newtons" } },
+        J: { long: { one: "joule", other: "joules" } },
+        W: { long: { one: "watt", other: "watts" } },
+        L: { long: { one: "litre", other: "litres" } },
+        ha: { long: { one: "hectare", other: "hectares" } },
+        b: { long: { one: "bit", other: "bits" } },
+        B: { short: "o", long: { one: "octet", other: "octets" } },
+        A: { long: { one: "ampère", other: "ampères" } },
+        C: { long: { one: "coulomb", other: "coulombs" } },
+        V: { long: { one: "volt", other: "volts" } },
+        ohm: { short: "Ω", long: { one: "ohm", other: "ohms" } },
+        mol: { long: { one: "mole", other: "moles" } },
+        Hz: { long: "hertz" },
+        rad: { long: { one: "radian", other: "radians" } },
+        deg: { long: { one: "degré", other: "degrés" } },
+        rev: { short: "tr", long: { one: "tour", other: "tours" } },
+        rpm: { short: "tr/min", long: "tours par minute" },
+        cd: { long: { one: "candela", other: "candelas" } },
+        lm: { long: { one: "lumen", other: "lumens" } },
+        lx: { long: "lux" },
+        Bq: { long: { one: "becquerel", other: "becquerels" } },
+        Gy: { long: { one: "gray", other: "grays" } },
+        Sv: { long: { one: "sievert", other: "sieverts" } },
+    },
+    per: "{0} par {1}",
+};
+
+const de: UnitLocale = {
+    prefixes: { ...siPrefixesEn, u: "mikro", µ: "mikro", c: "zenti", d: "dezi", h: "hekto", p: "piko" },
+    units: {
+        "%": { long: "prozent" },
+        g: { long: "gramm" },
+        m: { long: "meter" },
+        s: { long: { one: "sekunde", other: "sekunden" } },
+        min: { long: { one: "minute", other: "minuten" } },
+        h: { long: { one: "stunde", other: "stunden" } },
+        day: { short: "d", long: { one: "tag", other: "tage" } },
+        week: { long: { one: "woche", other: "wochen" } },
+        yr: { short: "a", long: { one: "jahr", other: "jahre" } },
+        K: { long: "kelvin" },
+        degC: { short: "°C", long: "grad Celsius" },
+        Pa: { long: "pascal" },
+        N: { long: "newton" },
+        J: { long: "joule" },
+        W: { long: "watt" },
+        L: { long: "liter" },
+        ha: { long: "hektar" },
+        b: { long: "bit" },
+        B: { long: "byte" },
+        A: { long: "ampere" },
+        C: { long: "coulomb" },
+        V: { long: "volt" },
+        ohm: { short: "Ω", long: "ohm" },
+        mol: { long: "mol" },
+        Hz: { long: "hertz" },
+        rad: { long: "radiant" },
+        deg: { long: "grad" },
+        rev: { short: "U", long: { one: "umdrehung", other: "umdrehungen" } },
+        rpm: { short: "U/min", long: "umdrehungen pro Minute" },
+        cd: { long: "candela" },
+        lm: { long: "lumen" },
+        lx: { long: "lux" },
+        Bq: { long: "becquerel" },
+        Gy: { long: "gray" },
+        Sv: { long: "sievert" },
+    },
+    per: "{0} pro {1}",
+    capitalize: true,
+};
+
+const ja: UnitLocale = {
+    prefixes: {
+        q: "クエクト",
+        r: "ロント",
+        y: "ヨクト",
+        z: "ゼプト",
+        a: "アト",
+        f: "フェムト",
+        p: "ピコ",
+        n: "ナノ",
+        u: "マイクロ",
+        µ: "マイクロ",
+        m: "ミリ",
+        c: "センチ",
+        d: "デシ",
+        h: "ヘクト",
+        k: "キロ",
+        M: "メガ",
+        G: "ギガ",
+        T: "テラ",
+        P: "ペタ",
+        E: "エクサ",
+        Z: "ゼタ",
+        Y: "ヨタ",
+        R: "ロナ",
+        Q: "クエタ",
+        Ki: "キビ",
+        Mi: "メビ",
+        Gi: "ギビ",
+        Ti: "テビ",
+        Pi: "ペビ",
+        Ei: "エクスビ",
+        Zi: "ゼビ",
+        Yi: "ヨビ",
+    },
+    units: {
+        "%": { long: "パーセント" },
+        g: { long: "グラム" },
+        m: { long: "メートル" },
+        s: { long: "秒" },
+        min: { long: "分" },
+        h: { long: "時間" },
+        day: { long: "日" },
+        week: { long: "週間" },
+        yr: { long: "年" },
+        K: { long: "ケルビン" },
+        degC: { short: "°C", long: "セルシウス度" },
+        Pa: { long: "パスカル" },
+        N: { long: "ニュートン" },
+        J: { long: "ジュール" },
+        W: { long: "ワット" },
+        L: { long: "リットル" },
+        ha: { long: "ヘクタール" },
+        b: { long: "ビット" },
+        B: { long: "バイト" },
+        A: { long: "アンペア" },
+        C: { long: "クーロン" },
+        V: { long: "ボルト" },
+        ohm: { short: "Ω", long: "オーム" },
+        mol: { long: "モル" },
+        Hz: { long: "ヘルツ" },
+        rad: { long: "ラジアン" },
+        deg: { long: "度" },
+        cd: { long: "カンデラ" },
+        lm: { long: "ルーメン" },
+        lx: { long: "ルクス" },
+        Bq: { long: "ベクレル" },
+        Gy: { long: "グレイ" },
+        Sv: { long: "シーベルト" },
+    },
+    per: "{0}毎{1}",
+    longUnitSeparator: "",
+};
+
+/** The unit names for each locale, keyed by language tag (e.g. "fr" or "fr-CA") */
+const unitLocales: Record<string, UnitLocale> = { en, fr, de, ja };
+
+/**
+ * Add or replace the unit names that {@link Quantity.toLocaleString} uses for a locale.
+ *
+ * ```ts
+ * const fr = getUnitLocale("fr");
+ * registerUnitLocale("fr", { ...fr, units: { ...fr.units, pphpd: { long: "passagers par heure par direction" } } });
+ * ```
+ */
+export function registerUnitLocale(locale: string, unitLocale: UnitLocale): void {
+    unitLocales[locale] = unitLocale;
+}
+
+/**
+ * Get the unit names for the given locale. If there are no unit names for that exact locale (e.g. "fr-CA"), the
+ * names for the language ("fr") are used, and if there are none for that either, the English names.
+ */
+export function getUnitLocale(locale: string): UnitLocale {
+    return unitLocales[locale] ?? unitLocales[locale.split("-")[0]] ?? en;
+}
+
+/**
+ * Get the full name of a unit like "km" (e.g. "kilometers"), or undefined if its name isn't known in this locale.
+ */
+function getLongUnitName(u: ParsedUnit, unitLocale: UnitLocale, plural: Intl.LDMLPluralRule): string | undefined {
+    const forms = unitLocale.units[u.unit]?.long;
+    if (forms === undefined) return undefined;
+    let name = typeof forms === "string" ? forms : forms[plural] ?? forms.other;
+    if (u.prefix) {
+        const prefixName = unitLocale.prefixes[u.prefix];
+        if (prefixName === undefined) return undefined;
+        name = prefixName + name;
+    }
+    return unitLocale.capitalize ? name[0].toUpperCase() + name.substring(1) : name;
+}
+
+/**
+ * Get the full name of some units, like "kilometers" or "kilometers per hour". Only simple units, with at most one
+ * unit in the numerator and one in the denominator, have full names. Returns undefined for anything else.
+ */
+function getLongUnitsName(
+    units: readonly ParsedUnit[],
+    unitLocale: UnitLocale,
+    plural: Intl.LDMLPluralRule,
+): string | undefined {
+    if (units.length === 1 && units[0].power === 1) {
+        return getLongUnitName(units[0], unitLocale, plural);
+    } else if (units.length === 2 && units[0].power === 1 && units[1].power === -1) {
+        const numerator = getLongUnitName(units[0], unitLocale, plural);
+        const denominator = getLongUnitName({ ...units[1], power: 1 }, unitLocale, "one");
+        if (numerator === undefined || denominator === undefined) return undefined;
+        return unitLocale.per.replace("{0}", numerator).replace("{1}", denominator);
+    }
+    return undefined;
+}
+
+/**
+ * Format a serialized Quantity as a string for the given locale(s). See {@link Quantity.toLocaleString}.
+ */
+export function formatQuantityLocale(
+    serialized: SerializedQuantity,
+    units: readonly ParsedUnit[],
+    locales: string | string[] | undefined,
+    options: LocaleFormatOptions = {},
+): string {
+    const { magnitude, plusMinus, plus, minus } = roundForDisplay(serialized, { ...options, notation: "fixed" });
+    // Unless the numberFormat options say otherwise, show exactly as many decimal places as the rounded value has:
+    const hasDigitOptions = ["minimumFractionDigits", "maximumFractionDigits", "maximumSignificantDigits"]
+        .some((option) => options.numberFormat && option in options.numberFormat);
+    const numberFormat = (d: Decimal) => {
+        const fractionDigits = Math.min(Math.max(0, -d.exponent), 100);
+        return new Intl.NumberFormat(locales, {
+            ...(hasDigitOptions
+                ? {}
+                : { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits }),
+            ...options.numberFormat,
+        });
+    };
+
+    const magnitudeString = decimalToString(magnitude, 0, "");
+    const magnitudeFormat = numberFormat(magnitude);
+    let result = magnitudeFormat.format(magnitudeString as Intl.StringNumericLiteral);
+    const formatTolerance = (d: Decimal) =>
+        numberFormat(d).format(decimalToString(d, 0, "") as Intl.StringNumericLiteral);
+    if (plus && minus) {
+        result += ` +${formatTolerance(plus)} -${formatTolerance(minus)}`;
+    } else if (plusMinus) {
+        result += "±" + formatTolerance(plusMinus);
+    }
+    if (units.length === 0) {
+        return result;
+    }
+
+    const resolvedLocale = magnitudeFormat.resolvedOptions().locale;
+    const unitLocale = options.unitNames ?? getUnitLocale(resolvedLocale);
+    if (options.unitDisplay === "long") {
+        const { minimumFractionDigits, maximumFractionDigits } = magnitudeFormat.resolvedOptions();
+        const plural = new Intl.PluralRules(resolvedLocale, { minimumFractionDigits, maximumFractionDigits })
+            .select(Number(magnitudeString));
+        const longName = getLongUnitsName(units, unitLocale, plural);
+        if (longName !== undefined) {
+            return result + (unitLocale.longUnitSeparator ?? " ") + longName;
+        }
+    }
+    // Use the unit symbols, e.g. "km/h"
+    return result + " " +
+        toUnitString(units.map((u) => ({ ...u, unit: unitLocale.units[u.unit]?.short ?? u.unit })));
+}
@@ -4,8 +4,27 @@
  * like "5 m" or "-16 kg⋅m^2"
  */
 
-export { Quantity, type SerializedQuantity } from "./quantity.ts";
+export { Quantity, type SerializedQuantity, type UncertaintyModel } from "./quantity.ts";
 export { Q } from "./q.ts";
-export { builtInUnits, type ParsedUnit, parseUnits, type Unit } from "./units.ts";
+export { QuantityArray, type SerializedQuantityArray } from "./quantity-array.ts";
+export { type FormatOptions } from "./format.ts";
+export {
+    getUnitLocale,
+    type LocaleFormatOptions,
+    type LocalizedUnitName,
+    registerUnitLocale,
+    type UnitLocale,
+} from "./locale.ts";
+export {
+    builtInUnits,
+    type ParsedUnit,
+    parseUnits,
+    type PreferredUnit,
+    toUnitString,
+    type Unit,
+    type UnitSystemName,
+    unitSystems,
+} from "./units.ts";
 export { InvalidConversionError, QuantityError } from "./error.ts";
 export { Dimensionless, Dimensions } from "./dimensions.ts";
+export { UnitRegistry } from "./registry.ts";
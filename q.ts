@@ -1,25 +1,476 @@
 import { Quantity } from "./quantity.ts";
 import { QuantityError } from "./error.ts";
+import type { UnitRegistry } from "./registry.ts";
 
 /**
  * Construct a `Quantity` instance from a string.
+ *
+ * The string can be a simple value like "15 kg⋅m/s^2", "2±0.2 cm" or "10 +0.2 -0.1 mm" (an asymmetric tolerance),
+ * or an arithmetic expression that uses
+ * `+`, `-`, `*`, `/`, `^` and parentheses:
+ *
+ * ```ts
+ * Q`(5 m + 25 cm) * 3 / 2 s`.toString()  // "7.875 m/s"
+ * ```
+ *
+ * Numbers can use scientific notation (`1.5e-3 m`, `5×10^3 N`, `5×10³ N`), commas or thin spaces to separate
+ * groups of digits (`1,200 kg`), and the Unicode minus sign (`−3 m`).
+ *
+ * Quantity objects can be used in template strings too:
+ *
+ * ```ts
+ * const width = Q`30 cm`;
+ * Q`2 * ${width} + 5 mm`.toString()  // "60.5 cm"
+ * ```
  */
 export function Q(strings: string | readonly string[], ...keys: unknown[]): Quantity {
+    return parseQuantityString(strings, keys);
+}
+
+/**
+ * Internal implementation of {@link Q}, which can optionally use the units from a {@link UnitRegistry}.
+ */
+export function parseQuantityString(
+    strings: string | readonly string[],
+    keys: readonly unknown[],
+    registry?: UnitRegistry,
+): Quantity {
     let fullString: string;
+    const quantities: Quantity[] = [];
     if (typeof strings == "string") {
         fullString = strings;
     } else {
         fullString = strings[0];
         for (let i = 0; i < keys.length; i++) {
-            fullString += String(keys[i]);
+            if (keys[i] instanceof Quantity) {
+                // Interpolated Quantity objects are kept as-is, rather than being converted to strings and back:
+                quantities.push(keys[i] as Quantity);
+                fullString += QUANTITY_PLACEHOLDER;
+            } else {
+                fullString += String(keys[i]);
+            }
             fullString += strings[i + 1];
         }
     }
-    const match = /([-+]?\d*\.?\d*)(\s*±\s*([\d\.]+))?\s*(.*)/.exec(fullString);
-    if (match === null) throw new QuantityError(`Unable to parse Q template string: ${fullString}`);
-    const magnitude = parseFloat(match[1]);
-    const plusMinusStr = match[3];
-    const plusMinus = plusMinusStr ? parseFloat(plusMinusStr) : undefined;
-    const units = match[4];
-    return new Quantity(magnitude, { units, plusMinus });
+    return new ExpressionParser(fullString, quantities, registry).parse();
+}
+
+/** Stands in for an interpolated Quantity object in the expression string. (This is the "object replacement" char.) */
+const QUANTITY_PLACEHOLDER = "\uFFFC";
+
+/** Characters that are operators, and which cannot be part of a unit name */
+const OPERATOR_CHARS = "+-\u2212*×/⋅^()±";
+
+/** Alternative operator characters, and the regular operator that each one is equivalent to */
+const OPERATOR_ALIASES: Readonly<Record<string, string>> = {
+    "\u2212": "-", // Unicode minus sign
+    "×": "*",
+};
+
+/** Digit group separators: comma, thin space, and narrow no-break space, e.g. "1,200,000" or "1\u2009200\u2009000" */
+const GROUP_SEPARATOR = /[,\u2009\u202F]/;
+/** The digits of a number, e.g. "1,200.5" or ".5" */
+const MANTISSA_REGEX = /(\d+(?:[,\u2009\u202F]\d+)*)(\.\d*)?|\.\d+/y;
+/** An exponent in E notation, e.g. "e-3" */
+const EXPONENT_REGEX = /[eE]([-+\u2212]?\d+)/y;
+/** A power of ten, e.g. "×10^3" or "×10³" */
+const TIMES_TEN_REGEX = /\s*×\s*10(?:\^([-+\u2212]?\d+)|([⁻⁺]?[⁰¹²³⁴⁵⁶⁷⁸⁹]+))/y;
+const SUPERSCRIPT_CHARS = "⁰¹²³⁴⁵⁶⁷⁸⁹";
+
+/** A token from a Q`...` expression */
+interface Token {
+    type: "number" | "unit" | "operator" | "quantity" | "end";
+    /** The original text of the token (except for operators, which are normalized, e.g. "−" becomes "-") */
+    text: string;
+    /** Start position of the token in the expression string (zero-based) */
+    start: number;
+    /** End position of the token in the expression string (zero-based, exclusive) */
+    end: number;
+    /** For number tokens, the numeric value. For quantity tokens, the index of the interpolated Quantity. */
+    value?: number;
+    /** For number tokens, the number of significant figures, based on how it's written. Undefined for zero. */
+    significantFigures?: number;
+}
+
+/** The uncertainty/error/tolerance of a number in a Q`...` expression: either `±plusMinus` or `+plus -minus` */
+interface Tolerance {
+    plusMinus?: number;
+    plus?: number;
+    minus?: number;
+}
+
+/** Create an error for a problem at the given position in an expression string */
+function syntaxError(message: string, source: string, start: number): QuantityError {
+    return new QuantityError(`${message} at column ${start + 1} of "${source}"`);
+}
+
+/**
+ * Read a number like "1.5", "1.5e-3", "1,200", "5×10^3" or "5×10³" from the expression string, starting at the given
+ * position. Returns undefined if there isn't a number at that position.
+ *
+ * Commas (and thin spaces) are only allowed as digit group separators, like "1,200,000". Anything else that could be
+ * a decimal comma, like "1,5" or "1.200,5", is an error, rather than silently being parsed as the wrong number. So is
+ * an underscore between digits, like "1_000".
+ */
+function lexNumber(source: string, start: number): Token | undefined {
+    MANTISSA_REGEX.lastIndex = start;
+    const mantissaMatch = MANTISSA_REGEX.exec(source);
+    if (!mantissaMatch) return undefined;
+    let end = MANTISSA_REGEX.lastIndex;
+    const integerPart = mantissaMatch[1] ?? "";
+    const groups = integerPart.split(GROUP_SEPARATOR);
+    if (
+        groups.length > 1 && (
+                new Set(integerPart.match(new RegExp(GROUP_SEPARATOR, "g"))).size > 1 ||
+                groups[0].length > 3 || groups[0].startsWith("0") ||
+                groups.slice(1).some((group) => group.length !== 3)
+            ) || GROUP_SEPARATOR.test(source[end] ?? "") && /\d/.test(source[end + 1] ?? "")
+    ) {
+        const text = /^[\d.,\u2009\u202F]*/.exec(source.substring(start))![0];
+        throw syntaxError(
+            `Ambiguous number "${text}" (use "." as the decimal separator, and "," only between groups of three digits)`,
+            source,
+            start,
+        );
+    }
+    if (source[end] === "_" && /\d/.test(source[end + 1] ?? "")) {
+        // "1_000" would otherwise be parsed as 1 with the units "_000"
+        const text = /^[\d.,_\u2009\u202F]*/.exec(source.substring(start))![0];
+        throw syntaxError(
+            `Invalid number "${text}" ("_" can't be used to separate digits; use "," between groups of three digits)`,
+            source,
+            start,
+        );
+    }
+    const digits = mantissaMatch[0].replaceAll(new RegExp(GROUP_SEPARATOR, "g"), "");
+
+    let exponent: string | undefined;
+    EXPONENT_REGEX.lastIndex = end;
+    const exponentMatch = EXPONENT_REGEX.exec(source);
+    if (exponentMatch) {
+        exponent = exponentMatch[1];
+        end = EXPONENT_REGEX.lastIndex;
+    } else {
+        TIMES_TEN_REGEX.lastIndex = end;
+        const timesTenMatch = TIMES_TEN_REGEX.exec(source);
+        if (timesTenMatch) {
+            exponent = timesTenMatch[1] ??
+                Array.from(timesTenMatch[2]).map((c) =>
+                    c === "⁻" ? "-" : c === "⁺" ? "+" : SUPERSCRIPT_CHARS.indexOf(c)
+                ).join("");
+            end = TIMES_TEN_REGEX.lastIndex;
+        }
+    }
+    const value = Number(exponent === undefined ? digits : `${digits}e${exponent.replace("\u2212", "-")}`);
+    const significantFigures = countSignificantFigures(digits);
+    return { type: "number", text: source.substring(start, end), start, end, value, significantFigures };
+}
+
+/**
+ * Count the significant figures in the digits of a number, like "1.20" (3), "0.0120" (3), or "1200" (2).
+ *
+ * Without a decimal point, trailing zeros are ambiguous ("1200" could be precise to the nearest 1 or 100), so they
+ * are not counted. Returns undefined for zero, since its precision can't be expressed as significant figures.
+ */
+function countSignificantFigures(digits: string): number | undefined {
+    const significant = digits.replace(".", "").replace(/^0+/, "");
+    if (significant === "") return undefined;
+    return digits.includes(".") ? significant.length : significant.replace(/0+$/, "").length;
+}
+
+/** Split an expression string like "5 kg⋅m/s^2 + 3 N" into tokens */
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let pos = 0;
+    let quantityIndex = 0;
+    while (pos < source.length) {
+        const char = source[pos];
+        const start = pos;
+        if (/\s/.test(char)) {
+            pos++;
+            continue;
+        }
+        const numberToken = lexNumber(source, pos);
+        if (numberToken) {
+            pos = numberToken.end;
+            tokens.push(numberToken);
+        } else if (char === QUANTITY_PLACEHOLDER) {
+            pos++;
+            tokens.push({ type: "quantity", text: "${...}", start, end: pos, value: quantityIndex++ });
+        } else if (source.startsWith("**", pos)) {
+            // "**" is an alternative exponent operator, as in "(2 m)**2"
+            pos += 2;
+            tokens.push({ type: "operator", text: "^", start, end: pos });
+        } else if (OPERATOR_CHARS.includes(char)) {
+            pos++;
+            tokens.push({ type: "operator", text: OPERATOR_ALIASES[char] ?? char, start, end: pos });
+        } else {
+            // This is a unit, like "km", "s^-2", or "m²". We leave the details of parsing it up to parseUnits().
+            while (pos < source.length && !/\s/.test(source[pos]) && !OPERATOR_CHARS.includes(source[pos])) pos++;
+            const afterGauge = source[pos + 2] ?? " ";
+            if (source.startsWith("-g", pos) && (/\s/.test(afterGauge) || OPERATOR_CHARS.includes(afterGauge))) {
+                // A gauge pressure unit like "psi-g", not a subtraction like "psi - g"
+                pos += 2;
+            }
+            if (source[pos] === "^" || source.startsWith("**", pos)) {
+                // The unit has an exponent, like "s^-2" or "m**2"
+                pos += source[pos] === "^" ? 1 : 2;
+                if (source[pos] === "-" || source[pos] === "+" || source[pos] === "\u2212") pos++;
+                while (pos < source.length && !/\s/.test(source[pos]) && !OPERATOR_CHARS.includes(source[pos])) pos++;
+            }
+            tokens.push({ type: "unit", text: source.substring(start, pos), start, end: pos });
+        }
+    }
+    tokens.push({ type: "end", text: "end of input", start: pos, end: pos });
+    return tokens;
+}
+
+/**
+ * A simple recursive descent parser for Q`...` expressions.
+ *
+ * From lowest to highest precedence, the supported operations are:
+ * - addition and subtraction (`+`, `-`)
+ * - multiplication and division (`*`, `/`)
+ * - implicit multiplication of adjacent values, or multiplication using `⋅` (so `3 / 2 s` means `3 / (2 s)`)
+ * - negation (`-`)
+ * - exponents (`^`)
+ *
+ * Values can be numbers, quantities with units (`5 kg`, `2±0.1 m/s`), units alone (`kg`, which means `1 kg`),
+ * interpolated Quantity objects, or parenthesized expressions.
+ */
+class ExpressionParser {
+    readonly #tokens: Token[];
+    #index = 0;
+    /**
+     * A number token that is negated by a unary minus in front of it, like `-5`. This is reset to undefined once the
+     * number has been negated by {@link ExpressionParser.#createQuantity}.
+     */
+    #negatedNumber: Token | undefined;
+
+    constructor(
+        readonly source: string,
+        readonly quantities: readonly Quantity[],
+        readonly registry: UnitRegistry | undefined,
+    ) {
+        this.#tokens = tokenize(source);
+    }
+
+    /** Parse the whole expression and return the resulting Quantity */
+    parse(): Quantity {
+        const result = this.#parseAdditive();
+        if (this.#peek().type !== "end") this.#unexpected();
+        return result;
+    }
+
+    #peek(offset = 0): Token {
+        return this.#tokens[Math.min(this.#index + offset, this.#tokens.length - 1)];
+    }
+
+    #next(): Token {
+        return this.#tokens[this.#index++];
+    }
+
+    #isOperator(token: Token, ...operators: string[]): boolean {
+        return token.type === "operator" && operators.includes(token.text);
+    }
+
+    #error(message: string, token: Token): never {
+        throw syntaxError(message, this.source, token.start);
+    }
+
+    #unexpected(token: Token = this.#peek()): never {
+        this.#error(token.type === "end" ? "Unexpected end of input" : `Unexpected "${token.text}"`, token);
+    }
+
+    /** Parse addition and subtraction: `a + b - c` */
+    #parseAdditive(): Quantity {
+        let result = this.#parseMultiplicative();
+        while (this.#isOperator(this.#peek(), "+", "-")) {
+            const operator = this.#next().text;
+            const y = this.#parseMultiplicative();
+            result = operator === "+" ? result.add(y) : result.sub(y);
+        }
+        return result;
+    }
+
+    /** Parse multiplication and division: `a * b / c` */
+    #parseMultiplicative(): Quantity {
+        let result = this.#parseProduct();
+        while (this.#isOperator(this.#peek(), "*", "/")) {
+            const operator = this.#next().text;
+            const y = this.#parseProduct();
+            result = operator === "*" ? result.multiply(y) : result.divide(y);
+        }
+        return result;
+    }
+
+    /** Parse implicit multiplication of adjacent values like `2 (3 m)`, or multiplication with `⋅` */
+    #parseProduct(): Quantity {
+        let result = this.#parseUnary();
+        while (true) {
+            const token = this.#peek();
+            if (this.#isOperator(token, "⋅")) {
+                this.#next();
+            } else if (!(token.type === "unit" || token.type === "quantity" || this.#isOperator(token, "("))) {
+                break;
+            }
+            result = result.multiply(this.#parseUnary());
+        }
+        return result;
+    }
+
+    /** Parse negation: `-a` */
+    #parseUnary(): Quantity {
+        if (this.#isOperator(this.#peek(), "-", "+")) {
+            const operator = this.#next().text;
+            const negatedNumber = operator === "-" && this.#peek().type === "number" ? this.#peek() : undefined;
+            if (negatedNumber) this.#negatedNumber = negatedNumber;
+            const operand = this.#parseUnary();
+            if (negatedNumber && this.#negatedNumber === undefined) return operand; // It's already negative
+            return operator === "-" ? operand.multiply(new Quantity(-1)) : operand;
+        }
+        return this.#parsePower();
+    }
+
+    /** Parse exponents: `a^2` */
+    #parsePower(): Quantity {
+        const base = this.#parsePrimary();
+        if (this.#isOperator(this.#peek(), "^")) {
+            this.#next();
+            return base.pow(this.#parseExponent());
+        }
+        return base;
+    }
+
+    /** Parse the exponent in `a^n`, which must be a number like `2` or `-1`, or a dimensionless expression in parentheses */
+    #parseExponent(): number {
+        const token = this.#peek();
+        if (this.#isOperator(token, "-", "+")) {
+            this.#next();
+            return (token.text === "-" ? -1 : 1) * this.#parseExponent();
+        } else if (token.type === "number") {
+            this.#next();
+            return token.value!;
+        } else if (this.#isOperator(token, "(")) {
+            const exponent = this.#parsePrimary();
+            if (!exponent.isDimensionless || exponent.plusMinus) {
+                this.#error("Exponents must be dimensionless numbers", token);
+            }
+            return exponent.magnitude;
+        }
+        this.#unexpected();
+    }
+
+    /** Parse a single value: a number or quantity like `5 kg`, a unit like `kg`, or a parenthesized expression */
+    #parsePrimary(): Quantity {
+        const token = this.#next();
+        if (token.type === "number") {
+            const tolerance: Tolerance = this.#parseAsymmetricTolerance(token) ?? {};
+            if (this.#isOperator(this.#peek(), "±")) {
+                this.#next();
+                const plusMinusToken = this.#next();
+                if (plusMinusToken.type !== "number") this.#unexpected(plusMinusToken);
+                tolerance.plusMinus = plusMinusToken.value;
+            }
+            return this.#createQuantity(token.value!, tolerance, token);
+        } else if (token.type === "unit") {
+            this.#index--;
+            return this.#createQuantity(1, {});
+        } else if (token.type === "quantity") {
+            const quantity = this.quantities[token.value!];
+            if (this.registry && quantity.registry && quantity.registry !== this.registry) {
+                this.#error("Cannot combine quantities that use different unit registries", token);
+            }
+            return quantity;
+        } else if (this.#isOperator(token, "(")) {
+            const result = this.#parseAdditive();
+            if (!this.#isOperator(this.#peek(), ")")) this.#unexpected();
+            this.#next();
+            return result;
+        }
+        this.#unexpected(token);
+    }
+
+    /**
+     * Parse an asymmetric tolerance like `+0.2 -0.1` or `+0.2/-0.1` that follows the number token, if there is one.
+     *
+     * To tell this apart from addition and subtraction, the signs must be written directly in front of the numbers,
+     * with a space before each one (or a slash between them), so `10 +0.2 -0.1 mm` has a tolerance, but
+     * `10 + 0.2 - 0.1` is an expression.
+     */
+    #parseAsymmetricTolerance(numberToken: Token): Tolerance | undefined {
+        const [plusSign, plus, separator] = [this.#peek(), this.#peek(1), this.#peek(2)];
+        const slash = this.#isOperator(separator, "/") && separator.start === plus.end;
+        const [minusSign, minus] = slash ? [this.#peek(3), this.#peek(4)] : [separator, this.#peek(3)];
+        if (
+            this.#isOperator(plusSign, "+") && plusSign.start > numberToken.end && plus.type === "number" &&
+            plus.start === plusSign.end && this.#isOperator(minusSign, "-") && minus.type === "number" &&
+            minus.start === minusSign.end && (slash ? minusSign.start === separator.end : minusSign.start > plus.end)
+        ) {
+            this.#index += slash ? 5 : 4;
+            return { plus: plus.value, minus: minus.value };
+        }
+        return undefined;
+    }
+
+    /**
+     * Create a Quantity with the given magnitude and the units (if any) that are at the current position.
+     *
+     * If the registry's {@link UnitRegistry.inferSignificantFigures} is enabled, the number of significant figures is
+     * taken from how the number is written, except for whole numbers without units (like the `2` in `2 * 1.20 m`),
+     * which are exact.
+     */
+    #createQuantity(magnitude: number, tolerance: Tolerance, numberToken?: Token): Quantity {
+        const unitsToken = this.#peek();
+        const units = this.#parseUnitString();
+        if (numberToken && numberToken === this.#negatedNumber) {
+            if (this.#isOperator(this.#peek(), "^")) {
+                // In `-2^2`, the power comes before the negation. A tolerance like `-5 +0 -1.5 V` is written for the
+                // negative number, so swap it here to cancel out the swap that happens when the value is negated:
+                [tolerance.plus, tolerance.minus] = [tolerance.minus, tolerance.plus];
+            } else {
+                // Otherwise, negate the number now, so that `-5 degC` is -5 °C, not the negative of 5 °C:
+                magnitude = -magnitude;
+                this.#negatedNumber = undefined;
+            }
+        }
+        const isExact = units === undefined && /^[\d,\u2009\u202F]+$/.test(numberToken?.text ?? "");
+        const significantFigures = this.registry?.inferSignificantFigures && !isExact
+            ? numberToken?.significantFigures
+            : undefined;
+        try {
+            return new Quantity(magnitude, { units, ...tolerance, significantFigures, registry: this.registry });
+        } catch (err: unknown) {
+            if (err instanceof QuantityError && units !== undefined) {
+                // Add the position of the units to the error message, e.g. 'Unable to parse the unit "foo" at column 3'
+                this.#error(err.message, unitsToken);
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Parse a sequence of units like `kg m / s^2` and return it as a string for parseUnits(), or return undefined if
+     * there are no units at the current position.
+     *
+     * A `/` or `⋅` is part of the unit string if it's followed by another unit. Otherwise, it's a regular operator, so
+     * `5 m/s` is parsed as a quantity with units "m/s", but `5 m / (2 s)` is an expression.
+     */
+    #parseUnitString(): string | undefined {
+        const first = this.#peek();
+        if (first.type !== "unit") return undefined;
+        let last = this.#next();
+        while (true) {
+            const token = this.#peek();
+            if (token.type === "unit") {
+                last = this.#next();
+            } else if (this.#isOperator(token, "/", "⋅") && this.#peek(1).type === "unit") {
+                this.#next();
+                last = this.#next();
+            } else {
+                break;
+            }
+        }
+        return this.source.substring(first.start, last.end);
+    }
 }
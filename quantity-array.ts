@@ -0,0 +1,529 @@
+import { Dimensionless, type Dimensions } from "./dimensions.ts";
+import { QuantityError } from "./error.ts";
+import { Quantity } from "./quantity.ts";
+import type { UnitRegistry } from "./registry.ts";
+import { getUnitData, type ParsedUnit, parseUnits, prefixes, toUnitString } from "./units.ts";
+
+/**
+ * Simple data structure that holds all the key data of a QuantityArray instance, using its output units.
+ */
+export interface SerializedQuantityArray {
+    magnitudes: Float64Array;
+    /** The uncertainty/tolerance: either one value shared by every element, or one value per element */
+    plusMinus?: number | Float64Array;
+    units: string;
+}
+
+/** Private constructor parameter to create a QuantityArray from values that are already in the base units. */
+const fromBaseUnits = Symbol("fromBaseUnits");
+
+/** One side of an element-wise operation: a QuantityArray, or a single value that applies to every element */
+interface Operand {
+    magnitudes: Float64Array | number;
+    plusMinus: Float64Array | number | undefined;
+    dimensions: Dimensions;
+    /** A Quantity of "1" in the units of this operand, used to work out the units of the result */
+    unit: Quantity;
+    registry: UnitRegistry | undefined;
+}
+
+/** Get the i-th value of an operand, which may be the same for every element */
+function valueAt(values: Float64Array | number | undefined, i: number): number {
+    return values === undefined ? 0 : typeof values === "number" ? values : values[i];
+}
+
+/** Get a Quantity of "1" in the given units, or "1" of the base units if there are no units. */
+function unitQuantity(
+    unitOutput: readonly ParsedUnit[] | undefined,
+    dimensions: Dimensions,
+    registry: UnitRegistry | undefined,
+    kind: string | undefined,
+): Quantity {
+    return unitOutput
+        ? new Quantity(1, { units: unitOutput, registry, kind })
+        : new Quantity(1, { dimensions, registry, kind });
+}
+
+/**
+ * Get the scale and offset of the given units, such that `baseValue = value * scale + offset`.
+ * (The scale is computed the same way as in the Quantity constructor, so that conversions give identical results.)
+ */
+function unitConversion(
+    units: readonly ParsedUnit[],
+    registry: UnitRegistry | undefined,
+): { scale: number; offset: number } {
+    let scale = 1;
+    let offset = 0;
+    for (const u of units) {
+        const unitData = registry ? registry.getUnitData(u.unit) : getUnitData(u.unit);
+        if (unitData.logarithmic) {
+            throw new QuantityError(`QuantityArray does not support logarithmic units like "${u.unit}".`);
+        }
+        scale *= Math.pow(u.prefix ? unitData.s * prefixes[u.prefix] : unitData.s, u.power);
+        offset += unitData.offset ?? 0;
+    }
+    return { scale, offset };
+}
+
+/**
+ * If the given units are a single unit with an offset, like "degC" (for specific temperatures, as opposed to
+ * differences in temperature like "deltaC"), get that unit, and the units for the difference between two such values.
+ */
+function offsetUnit(
+    units: readonly ParsedUnit[] | undefined,
+    registry: UnitRegistry | undefined,
+): { unit: string; deltaUnits: ParsedUnit[] | undefined } | undefined {
+    if (units?.length !== 1) return undefined;
+    const { unit, prefix } = units[0];
+    const { offset, delta } = registry ? registry.getUnitData(unit) : getUnitData(unit);
+    if (!offset) return undefined;
+    // Keep any prefix, so that the difference between two values in "kPa-g" is in "kPa":
+    const deltaUnits = delta ? [{ prefix, unit: delta, power: 1 }] : undefined;
+    return { unit: toUnitString(units), deltaUnits };
+}
+
+/**
+ * QuantityArray - many values with the same units, e.g. a series of sensor readings.
+ *
+ * This stores the magnitudes in a `Float64Array` with one shared set of dimensions and units, so it's much faster
+ * and uses much less memory than an array of separate {@link Quantity} objects. Arithmetic is done element-wise:
+ *
+ * ```ts
+ * const readings = new QuantityArray([1.2, 1.5, 1.1], { units: "V" });
+ * readings.multiply(Q`2 A`).toString()  // "[2.4, 3, 2.2] V⋅A"
+ * readings.max().toString()  // "1.5 V"
+ * ```
+ *
+ * Uncertainty/tolerance (plusMinus) values are always treated as worst-case bounds.
+ */
+export class QuantityArray {
+    /** The magnitudes (numeric parts) of the values. Always in the base units (kg, m, s, etc.). Don't modify this. */
+    public readonly magnitudes: Float64Array;
+
+    /** The dimensions of all the values in this array. */
+    public readonly dimensions: Dimensions;
+
+    /**
+     * The uncertainty/error/tolerance of the values, in the base units. This is either a single number that applies
+     * to every element, or an array with one number per element. Don't modify this.
+     */
+    public readonly plusMinus: number | Float64Array | undefined;
+
+    /** Units to use instead of the base units, when displaying these values. */
+    public readonly unitOutput: readonly ParsedUnit[] | undefined;
+
+    /** The unit registry that these values use to look up units, if they use custom units from a UnitRegistry. */
+    public readonly registry: UnitRegistry | undefined;
+
+    /** The kind of quantity that these values are, like "activity" for values in "Bq". See {@link Quantity.kind}. */
+    public readonly kind: string | undefined;
+
+    constructor(
+        magnitudes: ArrayLike<number>,
+        options: {
+            dimensions?: Dimensions;
+            units?: string | readonly ParsedUnit[];
+            /**
+             * Allowed uncertainty/error/tolerance of the values, in the same units as the magnitudes: either one
+             * number for every element, or one number per element.
+             */
+            plusMinus?: number | ArrayLike<number>;
+            /** A registry of custom units that these values can use, in addition to the built-in units. */
+            registry?: UnitRegistry;
+            /** The kind of quantity that these values are, if it's not implied by the units. */
+            kind?: string;
+            /** Internal use only - the magnitudes and plusMinus are already in base units, with these dimensions */
+            [fromBaseUnits]?: {
+                dimensions: Dimensions;
+                unitOutput: readonly ParsedUnit[] | undefined;
+                kind: string | undefined;
+            };
+        } = {},
+    ) {
+        this.registry = options.registry;
+        const internal = options[fromBaseUnits];
+        if (internal) {
+            this.magnitudes = magnitudes as Float64Array;
+            this.plusMinus = options.plusMinus as number | Float64Array | undefined;
+            this.dimensions = internal.dimensions;
+            this.unitOutput = internal.unitOutput;
+            this.kind = internal.kind;
+            return;
+        }
+
+        let scale = 1;
+        let offset = 0;
+        if (options.units) {
+            if (options.dimensions) {
+                throw new QuantityError(`You can specify units or dimensions, but not both.`);
+            }
+            // Constructing a Quantity validates the units (and kind) for us, and works out their dimensions:
+            const unit = new Quantity(1, { units: options.units, registry: this.registry, kind: options.kind });
+            this.unitOutput = unit.unitOutput;
+            this.dimensions = unit.dimensions;
+            this.kind = unit.kind;
+            ({ scale, offset } = unitConversion(unit.unitOutput!, this.registry));
+        } else {
+            this.dimensions = options.dimensions ?? Dimensionless;
+            this.kind = unitQuantity(undefined, this.dimensions, this.registry, options.kind).kind;
+        }
+
+        this.magnitudes = new Float64Array(magnitudes.length);
+        for (let i = 0; i < magnitudes.length; i++) {
+            if (!isFinite(magnitudes[i])) throw new QuantityError("Invalid magnitude value");
+            this.magnitudes[i] = magnitudes[i] * scale + offset;
+        }
+
+        const plusMinus = options.plusMinus;
+        if (typeof plusMinus === "number") {
+            if (!isFinite(plusMinus) || plusMinus < 0) throw new QuantityError("Invalid plusMinus value");
+            this.plusMinus = plusMinus * scale;
+        } else if (plusMinus !== undefined) {
+            if (plusMinus.length !== magnitudes.length) {
+                throw new QuantityError("The plusMinus array must have the same length as the magnitudes.");
+            }
+            const values = new Float64Array(plusMinus.length);
+            for (let i = 0; i < plusMinus.length; i++) {
+                if (!isFinite(plusMinus[i]) || plusMinus[i] < 0) throw new QuantityError("Invalid plusMinus value");
+                values[i] = plusMinus[i] * scale;
+            }
+            this.plusMinus = values;
+        }
+    }
+
+    /** The number of values in this array */
+    public get length(): number {
+        return this.magnitudes.length;
+    }
+
+    /**
+     * Get one element of this array as a Quantity. Negative indexes count back from the end of the array.
+     *
+     * ```ts
+     * new QuantityArray([1, 2, 3], { units: "m" }).at(-1).toString()  // "3 m"
+     * ```
+     */
+    public at(index: number): Quantity {
+        const i = index < 0 ? this.length + index : index;
+        if (!Number.isInteger(i) || i < 0 || i >= this.length) {
+            throw new QuantityError(`Index ${index} is out of range.`);
+        }
+        return this.#quantity(this.magnitudes[i], valueAt(this.plusMinus, i) || undefined);
+    }
+
+    /** Iterate over the elements of this array, as Quantity objects */
+    public *[Symbol.iterator](): Iterator<Quantity> {
+        for (let i = 0; i < this.length; i++) {
+            yield this.at(i);
+        }
+    }
+
+    /**
+     * Get the values of this array, using the original units if possible.
+     *
+     * ```ts
+     * new QuantityArray([1, 2], { units: "km" }).get()  // { magnitudes: Float64Array [1, 2], units: "km" }
+     * ```
+     */
+    public get(): SerializedQuantityArray {
+        const units = this.unitOutput ??
+            this.#parseUnits(unitQuantity(undefined, this.dimensions, this.registry, this.kind).get().units);
+        const { scale, offset } = unitConversion(units, this.registry);
+        const magnitudes = new Float64Array(this.length);
+        for (let i = 0; i < this.length; i++) {
+            magnitudes[i] = (this.magnitudes[i] - offset) / scale;
+        }
+        const result: SerializedQuantityArray = { magnitudes, units: toUnitString(units) };
+        if (typeof this.plusMinus === "number") {
+            result.plusMinus = this.plusMinus / scale;
+        } else if (this.plusMinus) {
+            result.plusMinus = this.plusMinus.map((value) => value / scale);
+        }
+        return result;
+    }
+
+    /**
+     * Get the values of this array as a string.
+     *
+     * ```ts
+     * new QuantityArray([1, 2.5], { units: "km" }).toString()  // "[1, 2.5] km"
+     * ```
+     */
+    toString(): string {
+        const serialized = this.get();
+        const values = Array.from(serialized.magnitudes, (magnitude, i) => {
+            const plusMinus = valueAt(serialized.plusMinus, i);
+            return plusMinus ? `${magnitude}±${plusMinus}` : String(magnitude);
+        });
+        return `[${values.join(", ")}]` + (serialized.units ? " " + serialized.units : "");
+    }
+
+    /**
+     * Convert these values to the specified units.
+     *
+     * ```ts
+     * new QuantityArray([1, 2], { units: "km" }).convert("m").toString()  // "[1000, 2000] m"
+     * ```
+     */
+    public convert(units: string | ParsedUnit[]): QuantityArray {
+        // Converting a Quantity validates the units for us:
+        const converted = unitQuantity(this.unitOutput, this.dimensions, this.registry, this.kind).convert(units);
+        return this.#create(this.magnitudes, this.plusMinus, converted, this.registry);
+    }
+
+    /**
+     * Add another QuantityArray (element-wise) or a single Quantity (to every element) to this.
+     *
+     * As with {@link Quantity.add}, a specific temperature (or other value in a unit with an offset, like "degC") can
+     * have a difference added to it, but two specific temperatures can't be added together:
+     *
+     * ```ts
+     * new QuantityArray([10, 20], { units: "degC" }).add(Q`5 deltaC`).toString()  // "[15, 25] degC"
+     * ```
+     */
+    public add(y: QuantityArray | Quantity): QuantityArray {
+        return this.#addOrSub(y, 1);
+    }
+
+    /**
+     * Subtract another QuantityArray (element-wise) or a single Quantity (from every element) from this.
+     *
+     * As with {@link Quantity.sub}, the difference between two specific temperatures is a difference in temperature:
+     *
+     * ```ts
+     * new QuantityArray([10, 20], { units: "degC" }).sub(Q`5 degC`).toString()  // "[5, 15] deltaC"
+     * ```
+     */
+    public sub(y: QuantityArray | Quantity): QuantityArray {
+        return this.#addOrSub(y, -1);
+    }
+
+    /**
+     * Multiply this by another QuantityArray (element-wise), or by a single Quantity or number.
+     *
+     * ```ts
+     * new QuantityArray([1, 2], { units: "m" }).multiply(Q`3 m`).toString()  // "[3, 6] m^2"
+     * ```
+     */
+    public multiply(y: QuantityArray | Quantity | number): QuantityArray {
+        const other = this.#operand(y);
+        const registry = this.#combinedRegistry(other);
+        const unit = unitQuantity(this.unitOutput, this.dimensions, registry, this.kind).multiply(other.unit);
+        return this.#elementWiseProduct(other, false, unit, registry);
+    }
+
+    /**
+     * Divide this by another QuantityArray (element-wise), or by a single Quantity or number.
+     *
+     * ```ts
+     * new QuantityArray([10, 20], { units: "km" }).divide(Q`2 h`).toString()  // "[5, 10] km/h"
+     * ```
+     */
+    public divide(y: QuantityArray | Quantity | number): QuantityArray {
+        const other = this.#operand(y);
+        const registry = this.#combinedRegistry(other);
+        const unit = unitQuantity(this.unitOutput, this.dimensions, registry, this.kind).divide(other.unit);
+        return this.#elementWiseProduct(other, true, unit, registry);
+    }
+
+    /**
+     * Get the sum of all the values in this array. Values in a unit with an offset, like "degC", can't be added
+     * together (see {@link add}).
+     */
+    public sum(): Quantity {
+        const xOffsetUnit = offsetUnit(this.unitOutput, this.registry);
+        if (xOffsetUnit && this.length > 1) {
+            throw new QuantityError(
+                `Cannot add two quantities in the offset unit "${xOffsetUnit.unit}", because they're absolute values ` +
+                    `(like specific temperatures), not amounts.`,
+            );
+        }
+        const { sum, plusMinus } = this.#total();
+        return this.#quantity(sum, plusMinus || undefined);
+    }
+
+    /** Get the mean (average) of the values in this array. This works for values like "20 degC" too. */
+    public mean(): Quantity {
+        if (this.length === 0) throw new QuantityError("Cannot get the mean of an empty array.");
+        const { sum, plusMinus } = this.#total();
+        return this.#quantity(sum / this.length, plusMinus ? plusMinus / this.length : undefined);
+    }
+
+    /** Get the total of the magnitudes (in base units) and of the plusMinus values of this array */
+    #total(): { sum: number; plusMinus: number } {
+        let sum = 0;
+        let plusMinus = 0;
+        for (let i = 0; i < this.length; i++) {
+            sum += this.magnitudes[i];
+            plusMinus += valueAt(this.plusMinus, i);
+        }
+        return { sum, plusMinus };
+    }
+
+    /** Get the smallest value in this array */
+    public min(): Quantity {
+        return this.at(this.#indexOfExtreme((a, b) => a < b));
+    }
+
+    /** Get the largest value in this array */
+    public max(): Quantity {
+        return this.at(this.#indexOfExtreme((a, b) => a > b));
+    }
+
+    #indexOfExtreme(isBetter: (a: number, b: number) => boolean): number {
+        if (this.length === 0) throw new QuantityError("Cannot get the minimum or maximum of an empty array.");
+        let best = 0;
+        for (let i = 1; i < this.length; i++) {
+            if (isBetter(this.magnitudes[i], this.magnitudes[best])) best = i;
+        }
+        return best;
+    }
+
+    /**
+     * Multiply or divide this by another operand, element-wise, computing the new worst-case uncertainty/tolerance
+     * the same way that Quantity.multiply() and Quantity.divide() do.
+     */
+    #elementWiseProduct(other: Operand, divide: boolean, unit: Quantity, registry: UnitRegistry | undefined) {
+        const magnitudes = new Float64Array(this.length);
+        const hasPlusMinus = Boolean(this.plusMinus || other.plusMinus);
+        const plusMinus = hasPlusMinus ? new Float64Array(this.length) : undefined;
+        for (let i = 0; i < this.length; i++) {
+            const x = this.magnitudes[i];
+            let y = valueAt(other.magnitudes, i);
+            let dy = valueAt(other.plusMinus, i);
+            if (divide) {
+                if (y === 0) throw new QuantityError("Cannot divide by zero.");
+                if (dy) {
+                    if (dy >= Math.abs(y)) {
+                        throw new QuantityError(
+                            "Cannot divide by a quantity whose uncertainty/tolerance range includes zero.",
+                        );
+                    }
+                    dy = dy / (Math.abs(y) * (Math.abs(y) - dy));
+                }
+                y = 1 / y;
+            }
+            magnitudes[i] = x * y;
+            if (plusMinus) {
+                const dx = valueAt(this.plusMinus, i);
+                plusMinus[i] = dx && dy
+                    ? (Math.abs(x) + dx) * (Math.abs(y) + dy) - Math.abs(x * y)
+                    : dx * Math.abs(y) + dy * Math.abs(x);
+            }
+        }
+        return this.#create(magnitudes, plusMinus, unit, registry);
+    }
+
+    /**
+     * Add (or subtract, if sign is -1) another operand, element-wise, following the same rules for units with an
+     * offset (like "degC") as Quantity.add() and Quantity.sub().
+     */
+    #addOrSub(y: QuantityArray | Quantity, sign: 1 | -1): QuantityArray {
+        const other = this.#operand(y);
+        if (!this.dimensions.equalTo(other.dimensions)) {
+            throw new QuantityError(`Cannot add quantities with different units.`);
+        }
+        const registry = this.#combinedRegistry(other);
+        const xOffsetUnit = offsetUnit(this.unitOutput, registry);
+        const yOffsetUnit = offsetUnit(other.unit.unitOutput, registry);
+        if (xOffsetUnit && yOffsetUnit && sign === 1) {
+            throw new QuantityError(
+                `Cannot add two quantities in the offset unit "${xOffsetUnit.unit}", because they're absolute values ` +
+                    `(like specific temperatures), not amounts.`,
+            );
+        }
+        // The magnitudes are in base units without any offset (e.g. "K" for "degC" and "deltaC"), so they can simply
+        // be added or subtracted:
+        const magnitudes = new Float64Array(this.length);
+        for (let i = 0; i < this.length; i++) {
+            magnitudes[i] = this.magnitudes[i] + sign * valueAt(other.magnitudes, i);
+        }
+        // When adding or subtracting two quantities, the values of the uncertainty/tolerance are simply added:
+        let plusMinus: number | Float64Array | undefined = undefined;
+        if (typeof this.plusMinus !== "object" && typeof other.plusMinus !== "object") {
+            plusMinus = this.plusMinus || other.plusMinus ? (this.plusMinus ?? 0) + (other.plusMinus ?? 0) : undefined;
+        } else {
+            plusMinus = new Float64Array(this.length);
+            for (let i = 0; i < this.length; i++) {
+                plusMinus[i] = valueAt(this.plusMinus, i) + valueAt(other.plusMinus, i);
+            }
+        }
+        // The difference between two absolute values like "20 degC" is a difference, like "5 deltaC", but adding a
+        // difference to an absolute value gives an absolute value, whichever comes first:
+        const unitOutput = xOffsetUnit && yOffsetUnit
+            ? xOffsetUnit.deltaUnits
+            : yOffsetUnit && sign === 1
+            ? other.unit.unitOutput
+            : this.unitOutput;
+        // Work out the kind of the result (if any) the same way that Quantity.add() does. The units matter too (e.g. "Hz"
+        // can't be added to an "activity"), except for offset units, which aren't the units of any kind:
+        const xUnits = xOffsetUnit ? undefined : this.unitOutput;
+        const yUnits = yOffsetUnit ? undefined : other.unit.unitOutput;
+        const kind = unitQuantity(xUnits, this.dimensions, registry, this.kind)
+            .add(unitQuantity(yUnits, this.dimensions, registry, other.unit.kind)).kind;
+        return this.#create(magnitudes, plusMinus, { dimensions: this.dimensions, unitOutput, kind }, registry);
+    }
+
+    /** Get the other side of an operation with this array */
+    #operand(y: QuantityArray | Quantity | number): Operand {
+        if (y instanceof QuantityArray) {
+            if (y.length !== this.length) {
+                throw new QuantityError("Cannot combine QuantityArrays with different lengths.");
+            }
+            return {
+                magnitudes: y.magnitudes,
+                plusMinus: y.plusMinus,
+                dimensions: y.dimensions,
+                unit: unitQuantity(y.unitOutput, y.dimensions, y.registry, y.kind),
+                registry: y.registry,
+            };
+        }
+        const quantity = typeof y === "number" ? new Quantity(y) : y;
+        return {
+            magnitudes: quantity.magnitude,
+            plusMinus: quantity.plusMinus,
+            dimensions: quantity.dimensions,
+            unit: unitQuantity(quantity.unitOutput, quantity.dimensions, quantity.registry, quantity.kind),
+            registry: quantity.registry,
+        };
+    }
+
+    #combinedRegistry(other: Operand): UnitRegistry | undefined {
+        if (this.registry && other.registry && this.registry !== other.registry) {
+            throw new QuantityError("Cannot combine quantities that use different unit registries.");
+        }
+        return this.registry ?? other.registry;
+    }
+
+    #parseUnits(unitStr: string): ParsedUnit[] {
+        if (!unitStr) return [];
+        return this.registry ? this.registry.parseUnits(unitStr) : parseUnits(unitStr);
+    }
+
+    /** Create a Quantity from a magnitude in the base units, using the units of this array */
+    #quantity(magnitude: number, plusMinus: number | undefined): Quantity {
+        const quantity = new Quantity(magnitude, {
+            dimensions: this.dimensions,
+            plusMinus,
+            registry: this.registry,
+            kind: this.kind,
+        });
+        // Converting only changes the output units, so it doesn't introduce any rounding errors:
+        return this.unitOutput ? quantity.convert([...this.unitOutput]) : quantity;
+    }
+
+    /** Create a QuantityArray from values in the base units, with the dimensions, units and kind of `unit` */
+    #create(
+        magnitudes: Float64Array,
+        plusMinus: number | Float64Array | undefined,
+        unit: { dimensions: Dimensions; unitOutput: readonly ParsedUnit[] | undefined; kind: string | undefined },
+        registry: UnitRegistry | undefined,
+    ): QuantityArray {
+        const { dimensions, unitOutput, kind } = unit;
+        return new QuantityArray(magnitudes, {
+            plusMinus,
+            registry,
+            [fromBaseUnits]: { dimensions, unitOutput, kind },
+        });
+    }
+}
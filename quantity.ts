@@ -1,6 +1,23 @@
-import { Dimensionless, Dimensions } from "./dimensions.ts";
+import { Dimensionless, Dimensions, solveForUnitPowers } from "./dimensions.ts";
 import { InvalidConversionError, QuantityError } from "./error.ts";
-import { baseSIUnits, getUnitData, ParsedUnit, parseUnits, PreferredUnit, prefixes, toUnitString } from "./units.ts";
+import { type FormatOptions, formatQuantity } from "./format.ts";
+import { formatQuantityLocale, type LocaleFormatOptions } from "./locale.ts";
+import type { UnitRegistry } from "./registry.ts";
+import {
+    baseSIUnits,
+    builtInUnits,
+    getUnitData,
+    kindSIUnits,
+    type ParsedUnit,
+    parseUnits,
+    type PreferredUnit,
+    type Prefix,
+    prefixes,
+    toUnitString,
+    type Unit,
+    type UnitSystemName,
+    unitSystems,
+} from "./units.ts";
 
 /**
  * Simple data structure that holds all the key data of a Quantity instance.
@@ -11,13 +28,143 @@ export interface SerializedQuantity {
     magnitude: number;
     significantFigures?: number;
     plusMinus?: number;
+    /** The upper tolerance, if the tolerance is asymmetric (in which case plusMinus is not set) */
+    plus?: number;
+    /** The lower tolerance, if the tolerance is asymmetric (in which case plusMinus is not set) */
+    minus?: number;
+    /** How the plusMinus value should be interpreted. Only included if it's not the default, `"worst-case"`. */
+    uncertaintyModel?: UncertaintyModel;
     units: string;
+    /** The kind of quantity (see {@link Quantity.kind}). Only included if it's not implied by the units. */
+    kind?: string;
 }
 
+/**
+ * How the uncertainty/error/tolerance (plusMinus) of a Quantity is interpreted, and how it is propagated through
+ * mathematical operations:
+ * - `"worst-case"`: plusMinus is an absolute bound, like a manufacturing tolerance. The result of any operation has a
+ *   plusMinus value that covers every possible combination of the inputs.
+ * - `"gaussian"`: plusMinus is a standard deviation of a measurement. Uncertainties are assumed to be independent and
+ *   are combined in quadrature (root-sum-square), using first-order error propagation. This gives a smaller, more
+ *   realistic uncertainty when combining independent measurements.
+ */
+export type UncertaintyModel = "worst-case" | "gaussian";
+
 /** Private constructor parameter to pass '_unitOutput' values. */
 const setUnitOutput = Symbol("setUnitOutput");
 /** Private constructor parameter to skip applying an offset to units like degF that are offset from the base unit */
 const applyOffset = Symbol("applyOffset");
+/** Private constructor parameter to skip converting a value in a logarithmic unit like "dBm" to a linear value */
+const applyLogarithm = Symbol("applyLogarithm");
+
+/**
+ * Cache of the units picked by pickUnitsFromList() from each list of units, for each set of dimensions. Each unit
+ * registry has its own cache (built-in units are cached under `builtInUnits`); units can be added to a registry but
+ * never changed, so the cached results stay valid.
+ */
+const pickedUnitsCache = new WeakMap<
+    object,
+    WeakMap<readonly PreferredUnit[], Map<string, readonly ParsedUnit[]>>
+>();
+/** The dimensions of a temperature, like "K" */
+const TEMP_DIMENSION = new Dimensions([0, 0, 0, 1, 0, 0, 0, 0]);
+/** Cache of the SI units for each kind of quantity in {@link kindSIUnits}, as a Quantity with a magnitude of 1. */
+const kindSIUnitsCache = new Map<string, Quantity>();
+
+/**
+ * Internal helper for the trigonometric functions: get the angles `start + kπ` (for any integer k) that are between
+ * lower and upper. Only the first two are returned, since that's enough to find the range of sin(x) or cos(x).
+ */
+function multiplesOfPiBetween(lower: number, upper: number, start: number): number[] {
+    const result = [];
+    for (let k = Math.ceil((lower - start) / Math.PI); start + k * Math.PI <= upper && result.length < 2; k++) {
+        result.push(start + k * Math.PI);
+    }
+    return result;
+}
+
+/**
+ * Internal helper: divide a value by the scale of some units. Dividing by a power of ten like 1e-6 (for "µm") can add
+ * floating-point noise, e.g. 0.0005 m / 1e-6 is 500.00000000000006, so for those scales, moving the decimal point is
+ * tried too (giving exactly 500 µm), and whichever result is written more simply is used.
+ */
+function divideByScale(value: number, scale: number): number {
+    const divided = value / scale;
+    const exponent = Math.round(Math.log10(scale));
+    if (scale !== Number(`1e${exponent}`)) return divided;
+    const [mantissa, valueExponent] = value.toExponential().split("e");
+    const shifted = Number(`${mantissa}e${Number(valueExponent) - exponent}`);
+    return String(shifted).length < String(divided).length ? shifted : divided;
+}
+
+/** The output units of a Quantity in a logarithmic unit like "dBm" (see `Quantity._logarithmicUnit()`) */
+interface LogarithmicUnitOutput {
+    units: readonly ParsedUnit[];
+    /** The units as a string, like "dBm" */
+    unit: string;
+    /** The size of the unit in decibels */
+    decibels: number;
+    /** Is this a level, relative to a reference value like 1 mW, rather than a ratio like a gain of 3 dB? */
+    isLevel: boolean;
+}
+
+/** Convert a value in a logarithmic unit like "dBm" to a ratio of the unit's reference level, e.g. 20 dBm -> 100 */
+function fromLogarithmic(value: number, { decibels, rootPower }: NonNullable<Unit["logarithmic"]>): number {
+    return 10 ** (value * decibels / (rootPower ? 20 : 10));
+}
+
+/**
+ * Convert a ratio of the reference level of a logarithmic unit like "dBm" to a value in that unit, e.g. 100 -> 20 dBm.
+ * Converting to a linear value and back adds some rounding error, so this returns the value with the fewest digits
+ * that converts back to the same ratio (within its floating-point precision), so that "3 dB" stays "3 dB" rather than
+ * "2.999999999999999 dB".
+ */
+function toLogarithmic(ratio: number, logarithmic: NonNullable<Unit["logarithmic"]>): number {
+    const { decibels, rootPower } = logarithmic;
+    const value = (rootPower ? 20 : 10) * Math.log10(ratio) / decibels;
+    for (let digits = 1; digits < 17; digits++) {
+        const rounded = Number(value.toPrecision(digits));
+        if (Math.abs(fromLogarithmic(rounded, logarithmic) - ratio) <= 4 * Number.EPSILON * ratio) return rounded;
+    }
+    return value;
+}
+
+/**
+ * Convert a serialized value in a logarithmic unit like "dBm" from a ratio of its reference level (like 100, times
+ * 1 mW) to a value in that unit (like "20 dBm"), along with its tolerance.
+ */
+function serializedToLogarithmic(result: SerializedQuantity, logarithmic: NonNullable<Unit["logarithmic"]>) {
+    const ratio = result.magnitude;
+    if (!(ratio > 0)) {
+        throw new QuantityError(
+            `Cannot express a value that is zero or negative in the logarithmic unit "${result.units}".`,
+        );
+    }
+    result.magnitude = toLogarithmic(ratio, logarithmic);
+    const [upperTolerance, lowerTolerance] = [result.plus ?? result.plusMinus, result.minus ?? result.plusMinus];
+    if (upperTolerance && lowerTolerance !== undefined) {
+        if (ratio - lowerTolerance <= 0) {
+            throw new QuantityError(
+                `Cannot express a tolerance that includes zero or negative values in the logarithmic unit ` +
+                    `"${result.units}".`,
+            );
+        }
+        const bounds = [ratio - lowerTolerance, ratio + upperTolerance].map((b) => toLogarithmic(b, logarithmic));
+        const plus = Math.max(...bounds) - result.magnitude;
+        const minus = result.magnitude - Math.min(...bounds);
+        // A symmetric tolerance like "3±0.5 dBm" is asymmetric when converted to "mW", so it may come back with some
+        // rounding error. (Standard deviations are always symmetric, so use the larger side.)
+        if (Math.abs(plus - minus) <= 1e-9 * plus || result.uncertaintyModel === "gaussian") {
+            result.plusMinus = Math.max(plus, minus);
+            delete result.plus;
+            delete result.minus;
+        } else {
+            result.plus = plus;
+            result.minus = minus;
+            delete result.plusMinus;
+        }
+    }
+}
 
 /**
  * Quantity - a value with dimensions (units)
@@ -57,20 +204,86 @@ export class Quantity {
     }
     protected _dimensions: Dimensions;
 
-    /** If set, only this many of the decimal digits of the magnitude are significant. */
-    public readonly significantFigures: number | undefined;
+    /**
+     * The kind of quantity that this is, if known. This distinguishes quantities that have the same dimensions but
+     * measure different things, like radioactivity ("activity", measured in Bq) and frequency (measured in Hz).
+     *
+     * ```ts
+     * Q`5 kBq`.kind  // "activity"
+     * Q`5 kHz`.kind  // undefined
+     * ```
+     *
+     * The kind can also be set explicitly. Some kinds, like "torque", "frequency", and "activity", have their own SI
+     * units, which are used when converting to SI:
+     *
+     * ```ts
+     * const torque = Q`5 kg⋅m^2/s^2`.withKind("torque");
+     * torque.toSI().toString()  // "5 N⋅m" (not "5 J")
+     * ```
+     *
+     * The kind is kept through operations where it still makes sense (like adding two values of the same kind, or
+     * multiplying by a number), and is otherwise lost. Kinds that have their own SI units can't be added together, so
+     * `Q\`1 Gy\`.add(Q\`1 Sv\`)` throws a QuantityError.
+     */
+    public get kind(): string | undefined {
+        return this._kind;
+    }
+    protected _kind: string | undefined;
 
-    /** The uncertainty/error/tolerance that this value has. Always in the base units (kg, m, s, etc.). */
+    /**
+     * If set, only this many of the decimal digits of the magnitude are significant. If not set, the magnitude is
+     * treated as an exact number.
+     */
+    public get significantFigures(): number | undefined {
+        return this._significantFigures;
+    }
+    protected _significantFigures: number | undefined;
+
+    /**
+     * The uncertainty/error/tolerance that this value has. Always in the base units (kg, m, s, etc.).
+     * If the tolerance is asymmetric, this is the larger of {@link plus} and {@link minus}.
+     */
     public get plusMinus(): number | undefined {
         return this._plusMinus;
     }
     protected _plusMinus: number | undefined;
 
+    /**
+     * The upper tolerance of this value: it may be up to this much larger. Always in the base units.
+     * This is the same as plusMinus, unless the tolerance is asymmetric, like `10 +0.2 -0.1 mm`.
+     */
+    public get plus(): number | undefined {
+        return this._tolerance?.plus ?? this._plusMinus;
+    }
+
+    /**
+     * The lower tolerance of this value: it may be up to this much smaller. Always in the base units.
+     * This is the same as plusMinus, unless the tolerance is asymmetric, like `10 +0.2 -0.1 mm`.
+     */
+    public get minus(): number | undefined {
+        return this._tolerance?.minus ?? this._plusMinus;
+    }
+
+    /** The upper and lower tolerance, only if they are different. (Otherwise, only _plusMinus is set.) */
+    protected _tolerance: { plus: number; minus: number } | undefined;
+
+    /** How the uncertainty/error/tolerance of this value is interpreted and propagated. See {@link UncertaintyModel}. */
+    public get uncertaintyModel(): UncertaintyModel {
+        return this._uncertaintyModel;
+    }
+    protected _uncertaintyModel: UncertaintyModel;
+
     /**
      * Units to use instead of the base units, when displaying this value.
      */
     public readonly unitOutput: readonly ParsedUnit[] | undefined;
 
+    /**
+     * The unit registry that this Quantity uses to look up units, if it uses custom units from a {@link UnitRegistry}.
+     * If undefined, only the built-in units are available.
+     */
+    public readonly registry: UnitRegistry | undefined;
+
     constructor(
         protected _magnitude: number,
         options: {
@@ -82,6 +295,25 @@ export class Quantity {
             significantFigures?: number;
             /** Allowed uncertainty/error/tolerance in this measurement. Must be using the same units as the magnitude. */
             plusMinus?: number;
+            /**
+             * Allowed upper tolerance, for values with an asymmetric tolerance like `10 +0.2 -0.1 mm`.
+             * Must be used together with `minus`, and not with `plusMinus`.
+             */
+            plus?: number;
+            /** Allowed lower tolerance, for values with an asymmetric tolerance. Must be used together with `plus`. */
+            minus?: number;
+            /**
+             * How the plusMinus value is interpreted and propagated. Defaults to the registry's
+             * {@link UnitRegistry.uncertaintyModel}, or `"worst-case"`.
+             */
+            uncertaintyModel?: UncertaintyModel;
+            /** A registry of custom units that this Quantity can use, in addition to the built-in units. */
+            registry?: UnitRegistry;
+            /**
+             * The kind of quantity that this is (see {@link Quantity.kind}). By default, this comes from the units, if
+             * they're a single unit like "Bq" that's only used for one kind of quantity.
+             */
+            kind?: string;
             /** Internal use only - set the _unitOutput on this newly constructed Quantity */
             [setUnitOutput]?: readonly ParsedUnit[];
             /**
@@ -89,27 +321,72 @@ export class Quantity {
              * where 0 in the offset unit doesn't equal 0 in the base unit.
              */
             [applyOffset]?: (offset: number) => void;
+            /**
+             * Internal use only - override how we handle logarithmic units like "dBm", where values are converted
+             * to linear values (like "W") nonlinearly.
+             */
+            [applyLogarithm]?: (logarithmic: NonNullable<Unit["logarithmic"]>) => void;
         } = {},
     ) {
         if (!isFinite(this._magnitude)) throw new QuantityError("Invalid magnitude value");
-        this.significantFigures = options.significantFigures;
+        if (options.significantFigures !== undefined) {
+            const sf = options.significantFigures;
+            if (!Number.isInteger(sf) || sf < 1 || sf > 100) {
+                throw new QuantityError("Invalid significantFigures value");
+            }
+            this._significantFigures = sf;
+        }
+        this.registry = options.registry;
         if (options.plusMinus !== undefined) {
             if (!isFinite(options.plusMinus) || options.plusMinus < 0) {
                 throw new QuantityError("Invalid plusMinus value");
             }
             this._plusMinus = options.plusMinus;
         }
+        if (options.plus !== undefined || options.minus !== undefined) {
+            if (options.plusMinus !== undefined) {
+                throw new QuantityError("You can specify plusMinus or plus/minus, but not both.");
+            }
+            const { plus, minus } = options;
+            if (plus === undefined || minus === undefined) {
+                throw new QuantityError("An asymmetric tolerance needs both a plus and a minus value.");
+            }
+            if (!isFinite(plus) || plus < 0 || !isFinite(minus) || minus < 0) {
+                throw new QuantityError("Invalid plus/minus value");
+            }
+            this._setTolerance(plus, minus);
+        }
+        this._uncertaintyModel = options.uncertaintyModel ?? options.registry?.uncertaintyModel ?? "worst-case";
+        if (this._uncertaintyModel !== "worst-case" && this._uncertaintyModel !== "gaussian") {
+            throw new QuantityError(`Invalid uncertainty model "${this._uncertaintyModel}"`);
+        }
+        this._checkUncertaintyModel();
         if (options.units) {
             if (options.dimensions) {
                 throw new QuantityError(`You can specify units or dimensions, but not both.`);
             }
             const units: readonly ParsedUnit[] = typeof options.units === "string"
-                ? parseUnits(options.units)
+                ? this._parseUnits(options.units)
                 : options.units;
-            this.unitOutput = units;
+            // Units can cancel out, like "m/m", so normalize the _unitOutput value to never be an empty array:
+            this.unitOutput = units.length ? units : undefined;
             this._dimensions = Dimensionless;
+            this._kind = options.kind ?? this._kindOfUnits(units);
             for (const u of units) {
-                const unitData = getUnitData(u.unit);
+                const unitData = this._getUnitData(u.unit);
+                if (unitData.logarithmic) {
+                    // For logarithmic units like "dBm", we store the linear value (in "W"), so we convert the value
+                    // to a ratio of the reference level here, before it gets scaled. (.get() does the reverse.)
+                    if (units.length !== 1 || u.power !== 1) {
+                        throw new QuantityError(
+                            `It is not permitted to use compound units that include the logarithmic unit "${
+                                toUnitString([{ ...u, power: 1 }])
+                            }".`,
+                        );
+                    }
+                    const doLogarithm = options[applyLogarithm] ?? ((log) => this._fromLogarithmic(log, u.unit));
+                    doLogarithm(unitData.logarithmic);
+                }
                 const scale = u.prefix ? unitData.s * prefixes[u.prefix] : unitData.s;
                 const unitQuantity = new Quantity(scale, { dimensions: unitData.d });
                 unitQuantity._pow(u.power);
@@ -119,9 +396,12 @@ export class Quantity {
                     // the base units. (e.g. 0C = 273.15K). This only happens here during the constructor, where
                     // we convert everything to non-offset base units. (A related conversion also happens in
                     // .get() ).
-                    if (units.length !== 1) {
+                    if (units.length !== 1 || u.power !== 1) {
+                        const suggestion = unitData.delta ? `"${unitData.delta}"` : "a unit without an offset";
                         throw new QuantityError(
-                            `It is not permitted to use compound units that include the offset unit "${u}". Try using K, deltaC, or Pa instead.`,
+                            `It is not permitted to use compound units that include the offset unit "${
+                                toUnitString([{ ...u, power: 1 }])
+                            }". Try using ${suggestion} instead.`,
                         );
                         // e.g. "50 °C per kilometer" doesn't make any sense, but "50 ΔC per kilometer" could make sense.
                     }
@@ -133,12 +413,15 @@ export class Quantity {
             }
         } else if (options.dimensions) {
             this._dimensions = options.dimensions;
+            this._kind = options.kind;
             this.unitOutput = options[setUnitOutput];
             // Normalize the _unitOutput value to never be an empty array:
             if (this.unitOutput?.length === 0) this.unitOutput = undefined;
         } else {
             this._dimensions = Dimensionless;
+            this._kind = options.kind;
         }
+        if (options.kind !== undefined) this._checkKind();
     }
 
     /**
@@ -181,7 +464,11 @@ export class Quantity {
             this.sameDimensionsAs(other) &&
             this.magnitude === other.magnitude &&
             this.plusMinus === other.plusMinus &&
-            this.significantFigures === other.significantFigures
+            this.plus === other.plus &&
+            this.minus === other.minus &&
+            (this.plusMinus === undefined || this.uncertaintyModel === other.uncertaintyModel) &&
+            this.significantFigures === other.significantFigures &&
+            this.kind === other.kind
         );
     }
 
@@ -207,6 +494,135 @@ export class Quantity {
         return diff === 0 ? 0 : diff > 0 ? 1 : -1;
     }
 
+    /**
+     * Internal helper for the statistical functions like {@link Quantity.sum}: check that the list of quantities is
+     * not empty, and that they all have the same dimensions.
+     */
+    private static _checkList(quantities: readonly Quantity[], operation: string): void {
+        if (quantities.length === 0) {
+            throw new QuantityError(`Cannot compute the ${operation} of an empty list of quantities.`);
+        }
+        if (!quantities.every((q) => q.sameDimensionsAs(quantities[0]))) {
+            throw new QuantityError(`Cannot compute the ${operation} of quantities with different dimensions.`);
+        }
+    }
+
+    /**
+     * Get the sum of a list of quantities. The uncertainty/tolerance is propagated as in {@link add}, and the result
+     * uses the units of the first quantity.
+     *
+     * ```ts
+     * Quantity.sum([Q`1 m`, Q`20 cm`, Q`5 cm`]).toString()  // "1.25 m"
+     * ```
+     */
+    public static sum(quantities: readonly Quantity[]): Quantity {
+        Quantity._checkList(quantities, "sum");
+        return quantities.reduce((total, q) => total.add(q));
+    }
+
+    /**
+     * Get the mean (average) of a list of quantities. The uncertainty/tolerance is propagated as in {@link add}, and
+     * the result uses the units of the first quantity.
+     *
+     * ```ts
+     * Quantity.mean([Q`1±0.1 m`, Q`2±0.3 m`]).toString()  // "1.5±0.2 m"
+     * ```
+     */
+    public static mean(quantities: readonly Quantity[]): Quantity {
+        Quantity._checkList(quantities, "mean");
+        // Absolute values like "20 degC" can't be added together, but they still have a mean:
+        const values = quantities.map((q) => q._offsetUnit() ? q._clone({ newUnitOutput: undefined }) : q);
+        const mean = Quantity.sum(values).divide(new Quantity(quantities.length));
+        return mean._clone({ newUnitOutput: quantities[0].unitOutput });
+    }
+
+    /**
+     * Get the smallest of a list of quantities, including its uncertainty/tolerance, using the units of the first
+     * quantity.
+     *
+     * ```ts
+     * Quantity.min([Q`1 m`, Q`20 cm`, Q`3 ft`]).toString()  // "0.2 m"
+     * ```
+     */
+    public static min(quantities: readonly Quantity[]): Quantity {
+        Quantity._checkList(quantities, "minimum");
+        const result = quantities.reduce((min, q) => q._magnitude < min._magnitude ? q : min);
+        return result._clone({ newUnitOutput: quantities[0].unitOutput });
+    }
+
+    /**
+     * Get the largest of a list of quantities, including its uncertainty/tolerance, using the units of the first
+     * quantity.
+     *
+     * ```ts
+     * Quantity.max([Q`1 m`, Q`20 cm`, Q`3 ft`]).toString()  // "1 m"
+     * ```
+     */
+    public static max(quantities: readonly Quantity[]): Quantity {
+        Quantity._checkList(quantities, "maximum");
+        const result = quantities.reduce((max, q) => q._magnitude > max._magnitude ? q : max);
+        return result._clone({ newUnitOutput: quantities[0].unitOutput });
+    }
+
+    /**
+     * Get the median (middle value) of a list of quantities, using the units of the first quantity. If there are an
+     * even number of quantities, this is the mean of the two middle values.
+     *
+     * ```ts
+     * Quantity.median([Q`3 m`, Q`1 m`, Q`20 m`]).toString()  // "3 m"
+     * ```
+     */
+    public static median(quantities: readonly Quantity[]): Quantity {
+        Quantity._checkList(quantities, "median");
+        const sorted = quantities.toSorted((a, b) => a._magnitude - b._magnitude);
+        const middle = Math.floor(sorted.length / 2);
+        const result = sorted.length % 2 === 1 ? sorted[middle] : Quantity.mean([sorted[middle - 1], sorted[middle]]);
+        return result._clone({ newUnitOutput: quantities[0].unitOutput });
+    }
+
+    /**
+     * Get the standard deviation of a list of quantities, using the units of the first quantity.
+     *
+     * By default, this is the sample standard deviation (dividing by n - 1), which needs at least two values. Pass
+     * `{ population: true }` to get the population standard deviation (dividing by n).
+     *
+     * The result describes the spread of the values, so the uncertainty/tolerance of each value is not included.
+     *
+     * ```ts
+     * Quantity.stddev([Q`2 m`, Q`4 m`, Q`4 m`, Q`4 m`, Q`5 m`, Q`5 m`, Q`7 m`, Q`9 m`], { population: true }).toString()
+     * // "2 m"
+     * ```
+     */
+    public static stddev(quantities: readonly Quantity[], options: { population?: boolean } = {}): Quantity {
+        Quantity._checkList(quantities, "standard deviation");
+        const n = quantities.length;
+        if (n < 2 && !options.population) {
+            throw new QuantityError("Cannot compute the sample standard deviation of fewer than two quantities.");
+        }
+        const mean = quantities.reduce((total, q) => total + q._magnitude, 0) / n;
+        const sumOfSquares = quantities.reduce((total, q) => total + (q._magnitude - mean) ** 2, 0);
+        // The spread of absolute values like "20 degC" is a difference, like "5 deltaC":
+        const offsetUnit = quantities[0]._offsetUnit();
+        return new Quantity(Math.sqrt(sumOfSquares / (options.population ? n : n - 1)), {
+            dimensions: quantities[0]._dimensions,
+            registry: quantities.find((q) => q.registry)?.registry,
+            [setUnitOutput]: offsetUnit ? offsetUnit.deltaUnits : quantities[0].unitOutput,
+        });
+    }
+
+    /**
+     * Get the range (maximum minus minimum) of a list of quantities, using the units of the first quantity. The
+     * uncertainty/tolerance is propagated as in {@link sub}.
+     *
+     * ```ts
+     * Quantity.range([Q`1 m`, Q`20 cm`, Q`3 ft`]).toString()  // "0.8 m"
+     * ```
+     */
+    public static range(quantities: readonly Quantity[]): Quantity {
+        Quantity._checkList(quantities, "range");
+        return Quantity.max(quantities).sub(Quantity.min(quantities));
+    }
+
     /**
      * Get this Quantity value as a standardized string.
      *
@@ -219,12 +635,23 @@ export class Quantity {
         let r = serialized.significantFigures === undefined
             ? serialized.magnitude.toString(10)
             : serialized.magnitude.toPrecision(serialized.significantFigures);
-        if (serialized.plusMinus) {
-            let plusMinusString = serialized.plusMinus.toPrecision(2);
-            for (let i = 0; i < plusMinusString.length; i++) {
-                if (plusMinusString[i] === "0" || plusMinusString[i] === ".") {
+        if (r.includes("e+") && Math.abs(serialized.magnitude) < 1e21) {
+            // toPrecision() uses exponential notation when the significant figures don't reach the decimal point, like
+            // "1.2e+3" for 1200 with two significant figures. Write it as "1200" instead, like Number.toString() does:
+            r = Number(r).toString(10);
+        }
+        // Round the uncertainty/error/tolerance value(s) to one or two significant figures:
+        const tolerances = serialized.plusMinus
+            ? [serialized.plusMinus]
+            : serialized.plus !== undefined && serialized.minus !== undefined
+            ? [serialized.plus, serialized.minus]
+            : [];
+        const toleranceStrings = tolerances.map((tolerance) => {
+            let toleranceString = tolerance.toPrecision(2);
+            for (let i = 0; i < toleranceString.length; i++) {
+                if (toleranceString[i] === "0" || toleranceString[i] === ".") {
                     continue;
-                } else if (plusMinusString[i] === "1") {
+                } else if (toleranceString[i] === "1") {
                     // The uncertainty/error/tolerance starts with 1, so we follow
                     // an arbitrary rule to print it with two significant figures.
                     // See https://physics.stackexchange.com/a/520937 for why we do this.
@@ -232,26 +659,70 @@ export class Quantity {
                 } else {
                     // The uncertainty/error/tolerance should be printed to one
                     // significant figure, as it doesn't start with "1"
-                    plusMinusString = serialized.plusMinus.toPrecision(1);
+                    toleranceString = tolerance.toPrecision(1);
                 }
             }
+            return toleranceString;
+        });
+        if (toleranceStrings.length > 0) {
             if (!serialized.significantFigures) {
                 // Also, we need to trim the magnitude so that it doesn't have any more decimal places than
                 // the uncertainty/error/tolerance has. (Unless an explicit "significantFigures" value was given.)
                 const countDecimalPlaces = (str: string) => str.includes(".") ? str.length - str.indexOf(".") + 1 : 0;
-                const numPlusMinusDecimalPlaces = countDecimalPlaces(plusMinusString);
+                const numPlusMinusDecimalPlaces = Math.max(...toleranceStrings.map(countDecimalPlaces));
                 let precision = r.length;
                 while (countDecimalPlaces(r) > numPlusMinusDecimalPlaces) {
                     r = serialized.magnitude.toPrecision(--precision);
                 }
             }
-            r += "±" + plusMinusString;
+            r += toleranceStrings.length === 1
+                ? "±" + toleranceStrings[0]
+                : ` +${toleranceStrings[0]} -${toleranceStrings[1]}`;
         }
         if (serialized.units.length > 0) {
             r += " " + serialized.units;
         }
         return r;
     }
+
+    /**
+     * Get this Quantity value as a string, formatted using the given options.
+     *
+     * ```ts
+     * Q`1234.5678 m`.format({ decimalPlaces: 2, groupSeparator: "," })  // "1,234.57 m"
+     * Q`0.0123 A`.format({ notation: "engineering" })  // "12.3×10^-3 A"
+     * Q`1.2345±0.0012 kg`.format({ uncertainty: "concise" })  // "1.2345(12) kg"
+     * ```
+     *
+     * With no options, this is mostly the same as `toString()`, except that very large or very small numbers are
+     * written like `1×10^21` instead of `1e+21`, and trailing zeros are kept when rounding to match the
+     * uncertainty/tolerance (`9.0±0.6` instead of `9±0.6`).
+     */
+    public format(options: FormatOptions = {}): string {
+        const serialized = this.get();
+        if (options.superscripts && serialized.units) {
+            serialized.units = toUnitString(this._parseUnits(serialized.units), { superscripts: true });
+        }
+        return formatQuantity(serialized, options);
+    }
+
+    /**
+     * Get this Quantity value as a string that is formatted for the given locale(s), using `Intl.NumberFormat`.
+     *
+     * ```ts
+     * Q`1234.5 km`.toLocaleString("fr")  // "1 234,5 km"
+     * Q`5 km`.toLocaleString("fr", { unitDisplay: "long" })  // "5 kilomètres"
+     * Q`5 km/h`.toLocaleString("de", { unitDisplay: "long" })  // "5 Kilometer pro Stunde"
+     * ```
+     *
+     * Full unit names are only available for simple units like "km" or "km/h", and only if the locale has names for
+     * them (see {@link registerUnitLocale}). Otherwise, the unit symbols are used.
+     */
+    public toLocaleString(locales?: string | string[], options: LocaleFormatOptions = {}): string {
+        const serialized = this.get();
+        const units = serialized.units ? this._parseUnits(serialized.units) : [];
+        return formatQuantityLocale(serialized, units, locales, options);
+    }
     /**
      * Convert this Quantity to a different (compatible) unit.
      *
@@ -261,18 +732,58 @@ export class Quantity {
      * ```
      */
     public convert(units: string | ParsedUnit[]): Quantity {
-        const unitsNormalized: ParsedUnit[] = typeof units == "string" ? (units ? parseUnits(units) : []) : units;
+        const unitsNormalized: ParsedUnit[] = typeof units == "string" ? (units ? this._parseUnits(units) : []) : units;
         // First do some validation:
         let dimensions = Dimensionless;
         for (const u of unitsNormalized) {
-            dimensions = dimensions.multiply(getUnitData(u.unit).d.pow(u.power));
+            dimensions = dimensions.multiply(this._getUnitData(u.unit).d.pow(u.power));
         }
         if (!this._dimensions.equalTo(dimensions)) {
             throw new InvalidConversionError();
         }
+        this._checkAngularConversion(unitsNormalized);
         return this._clone({ newUnitOutput: unitsNormalized });
     }
 
+    /**
+     * Convert this Quantity to use the simplest combination of the given units, each raised to some integer power.
+     *
+     * ```ts
+     * Q`3 A`.convertToBasis(["C", "s"]).toString()  // "3 C/s"
+     * Q`10 J`.convertToBasis(["N", "cm"]).toString()  // "1000 N⋅cm"
+     * ```
+     *
+     * Each entry must be a single unit, optionally with a prefix (like "cm"), but without a power. Throws an
+     * InvalidConversionError if this quantity's dimensions can't be expressed using the given units.
+     */
+    public convertToBasis(units: readonly string[]): Quantity {
+        const basis: PreferredUnit[] = units.map((unitStr) => {
+            const parsed = this._parseUnits(unitStr);
+            if (parsed.length !== 1 || parsed[0].power !== 1) {
+                throw new QuantityError(`Each unit in the basis must be a single unit like "km", not "${unitStr}".`);
+            }
+            return parsed[0].prefix ? { unit: parsed[0].unit, prefix: parsed[0].prefix } : { unit: parsed[0].unit };
+        });
+        const newUnitOutput = [...this.pickUnitsFromList(basis)];
+        this._checkAngularConversion(newUnitOutput);
+        return this._clone({ newUnitOutput });
+    }
+
+    /**
+     * Internal helper: angles are dimensionless, so "rad/s" has the same dimensions as "Hz", but 1 Hz is one cycle
+     * per second, i.e. 2π rad/s. Converting between them would silently be off by 2π, so throw an
+     * InvalidConversionError instead.
+     */
+    private _checkAngularConversion(newUnits: readonly ParsedUnit[]): void {
+        const isAngular = (units: readonly ParsedUnit[]) => units.some((u) => this._getUnitData(u.unit).angular);
+        const isCyclic = (units: readonly ParsedUnit[]) => units.some((u) => u.unit === "Hz");
+        const fromAngular = this._kind === "angular velocity" || isAngular(this.unitOutput ?? []);
+        const fromCyclic = this._kind === "frequency" || isCyclic(this.unitOutput ?? []);
+        if ((fromAngular && isCyclic(newUnits)) || (fromCyclic && isAngular(newUnits))) {
+            throw new InvalidConversionError();
+        }
+    }
+
     /**
      * Get the value of this (as a SerializedQuantity) using the specified units.
      *
@@ -299,24 +810,38 @@ export class Quantity {
      * ```
      */
     public get(): SerializedQuantity {
-        const unitsForResult: readonly ParsedUnit[] = this.unitOutput ?? this.pickUnitsFromList(baseSIUnits);
+        const unitsForResult: readonly ParsedUnit[] = this.unitOutput ?? this._siUnits();
         let magnitudeUnscaled = this._magnitude;
+        let logarithmic: Unit["logarithmic"];
         const converter = new Quantity(1, {
             units: unitsForResult,
+            registry: this.registry,
             [applyOffset]: (offset) => magnitudeUnscaled -= offset,
+            [applyLogarithm]: (log) => logarithmic = log,
         });
 
         const result: SerializedQuantity = {
-            magnitude: magnitudeUnscaled / converter._magnitude,
+            magnitude: divideByScale(magnitudeUnscaled, converter._magnitude),
             units: toUnitString(unitsForResult),
         };
         if (this.significantFigures) {
-            // TODO: remove this
+            // Converting to other units is exact, so the number of significant figures stays the same:
             result.significantFigures = this.significantFigures;
         }
-        if (this.plusMinus) {
-            result.plusMinus = this.plusMinus / converter.magnitude;
+        if (this._tolerance) {
+            result.plus = divideByScale(this._tolerance.plus, converter.magnitude);
+            result.minus = divideByScale(this._tolerance.minus, converter.magnitude);
+        } else if (this.plusMinus) {
+            result.plusMinus = divideByScale(this.plusMinus, converter.magnitude);
+            if (this.uncertaintyModel !== "worst-case") {
+                result.uncertaintyModel = this.uncertaintyModel;
+            }
+        }
+        if (this._kind !== undefined && this._kind !== converter._kind) {
+            result.kind = this._kind;
         }
+        // So far, a value in a logarithmic unit is a ratio of the reference level, like 100 (times 1 mW):
+        if (logarithmic) serializedToLogarithmic(result, logarithmic);
         return result;
     }
 
@@ -349,155 +874,558 @@ export class Quantity {
         return this;
     }
 
+    /**
+     * Get the most compact representation of this quantity in the given system of units (see {@link unitSystems}).
+     *
+     * ```ts
+     * Q`10 N`.toSystem("US customary").toString()  // "2.248089430997105 lbf"
+     * Q`1 atm`.toSystem("US customary").toString()  // "14.695948775513452 psi"
+     * Q`1 J`.toSystem("CGS").toString()  // "10000000 erg"
+     * Q`5 deltaC`.toSystem("US customary").toString()  // "9 deltaF"
+     * ```
+     *
+     * The system can also be your own list of units, in order of preference:
+     *
+     * ```ts
+     * Q`10 m/s`.toSystem([{ unit: "m", prefix: "k" }, { unit: "h" }]).toString()  // "36 km/h"
+     * ```
+     */
+    public toSystem(system: UnitSystemName | readonly PreferredUnit[]): Quantity {
+        if (system === "SI") {
+            return this.toSI();
+        }
+        const units = typeof system === "string" ? unitSystems[system] : system;
+        if (units === undefined) {
+            throw new QuantityError(`Unknown unit system "${system}".`);
+        }
+        const newUnitOutput = [...this.pickUnitsFromList(units)];
+        // Systems use units for temperature differences like "deltaF", but an absolute temperature (like "300 K" or
+        // "20 degC", but not "5 deltaC") should use the matching unit with an offset (like "degF"):
+        const thisUnits = this.unitOutput ?? this._siUnits();
+        if (
+            this._dimensions.equalTo(TEMP_DIMENSION) && thisUnits.length === 1 && newUnitOutput.length === 1 &&
+            this._offsetUnitFor(thisUnits[0].unit) === undefined
+        ) {
+            const offsetUnit = this._offsetUnitFor(newUnitOutput[0].unit);
+            if (offsetUnit) newUnitOutput[0] = { unit: offsetUnit, power: 1 };
+        }
+        return this._clone({ newUnitOutput });
+    }
+
+    /**
+     * Internal helper: find the unit with an offset (like "degF") that uses the given unit (like "deltaF") for
+     * differences.
+     */
+    private _offsetUnitFor(deltaUnit: string): string | undefined {
+        const allUnits: Record<string, Unit> = { ...builtInUnits, ...this.registry?.customUnits };
+        return Object.keys(allUnits).find((name) => allUnits[name].delta === deltaUnit);
+    }
+
+    /**
+     * Get the details of this quantity, in the given system of units. This is the same as `.toSystem(system).get()`.
+     *
+     * ```ts
+     * Q`1 kg`.getInSystem("US customary")  // { magnitude: 2.2046226218487757, units: "lb" }
+     * ```
+     */
+    public getInSystem(system: UnitSystemName | readonly PreferredUnit[]): SerializedQuantity {
+        return this.toSystem(system).get();
+    }
+
+    /**
+     * If this Quantity is using a single unit that can have a prefix, change the prefix so that the magnitude is
+     * between 1 and 1000.
+     *
+     * ```ts
+     * Q`0.000012 m`.toBestPrefix().toString()  // "12 µm"
+     * Q`3400 MHz`.toBestPrefix().toString()  // "3.4 GHz"
+     * Q`1572864 B`.toBestPrefix({ binary: true }).toString()  // "1.5 MiB"
+     * ```
+     *
+     * Binary prefixes (with magnitudes between 1 and 1024) are used if the unit already has a binary prefix, or if
+     * `binary` is true. The rarely-used centi-, deci-, and hecto- prefixes are never chosen, and values that are too
+     * small or too large for any prefix use the smallest or largest one (like "1e-10 qm"). Quantities with compound
+     * units like "km/h" or with units that can't have prefixes are returned unchanged.
+     */
+    public toBestPrefix(options: { binary?: boolean } = {}): Quantity {
+        const units = this.unitOutput ?? this._siUnits();
+        if (units.length !== 1 || this._magnitude === 0) return this;
+        const { unit, power, prefix: currentPrefix } = units[0];
+        const unitData = this._getUnitData(unit);
+        if (unitData.offset) return this;
+        const binary = (options.binary ?? currentPrefix?.length === 2) && unitData.binaryPrefixable;
+        if (!binary && !unitData.prefixable) return this;
+
+        // The magnitude of this quantity in the unprefixed unit, e.g. in "m" for "12 µm":
+        const magnitude = divideByScale(Math.abs(this._magnitude), unitData.s ** power);
+        const candidates = (Object.keys(prefixes) as Prefix[])
+            .filter((p) => binary ? p.length === 2 : (p.length === 1 && !"cdhu".includes(p)))
+            .map((p) => ({ prefix: p as Prefix | undefined, scale: prefixes[p] ** power }));
+        candidates.push({ prefix: undefined, scale: 1 });
+        candidates.sort((a, b) => b.scale - a.scale);
+        // Use the largest prefix that still gives a magnitude of at least 1, or the smallest prefix if none do:
+        const best = candidates.find((c) => divideByScale(magnitude, c.scale) >= 1) ??
+            candidates[candidates.length - 1];
+        if (best.prefix === currentPrefix) return this;
+        return this.convert([best.prefix ? { prefix: best.prefix, unit, power } : { unit, power }]);
+    }
+
     /**
      * Internal method: given a list of possible units, pick the most compact subset
      * that can be used to represent this quantity.
+     *
+     * This finds the fewest units (with integer powers) that have the same dimensions as this quantity, even if that
+     * takes some algebra, like picking "C/s" to represent amperes from a list of units that has [C, s] only. See
+     * {@link solveForUnitPowers} for details.
+     *
+     * Units that are only used for one kind of quantity (like "Bq") are skipped unless this is that kind of quantity.
      */
-    protected pickUnitsFromList(unitList: readonly PreferredUnit[]): ParsedUnit[] {
+    protected pickUnitsFromList(allUnits: readonly PreferredUnit[]): readonly ParsedUnit[] {
+        // Picking units can take a while, so cache the result for each set of dimensions:
+        const cacheKey = `${this._kind}|${this._dimensions}`;
+        const registryKey = this.registry ?? builtInUnits;
+        const registryCache = pickedUnitsCache.get(registryKey) ?? new WeakMap();
+        const cache = registryCache.get(allUnits) ?? new Map<string, readonly ParsedUnit[]>();
+        const cached = cache.get(cacheKey);
+        if (cached) return cached;
+
+        const unitList = allUnits.filter((u) => {
+            const kind = this._getUnitData(u.unit).kind;
+            return kind === undefined || kind === this._kind;
+        });
         // Convert unitList to a dimension Array
-        const unitArray: Dimensions[] = unitList.map((u) => getUnitData(u.unit).d);
-        // Loop through each dimension and create a list of unit list indexes that
-        // are the best match for the dimension
-        const { useUnits, useUnitsPower } = this.pickUnitsFromListIterativeReduction(unitArray);
+        const unitArray: Dimensions[] = unitList.map((u) => this._getUnitData(u.unit).d);
+        const powers = solveForUnitPowers(this._dimensions, unitArray);
+        if (powers === undefined) {
+            throw new InvalidConversionError();
+        }
+        // List the units that we're using, from the most complex (like "V") to the simplest (like "kg"), and otherwise
+        // in the same order as the list.
+        const useUnits = powers.flatMap((power, i) => power === 0 ? [] : [i]).sort((a, b) =>
+            unitArray[b].dimensionality - unitArray[a].dimensionality
+        );
 
         // Special case to handle dimensionless units like "%" that we may actually want to use:
-        if (unitList.length === 1 && useUnits.length === 0) {
+        if (unitList.length === 1 && useUnits.length === 0 && unitArray[0].isDimensionless) {
             // We want "50 % ⋅ 50 %" to give "25 %"
             // But we want "50 % ⋅ 400 g" to give "200 g" (not "20,000 g⋅%"!)
-            for (let unitIdx = 0; unitIdx < unitList.length; unitIdx++) {
-                if (unitArray[unitIdx].isDimensionless) {
-                    useUnits.push(unitIdx);
-                    useUnitsPower.push(1);
-                    break; // Only include up to one dimensionless unit like "%"
-                }
-            }
+            useUnits.push(0);
+            powers[0] = 1;
         }
 
-        // At this point the units to be used are in useUnits
-        return useUnits.map((i, pi) => ({
-            unit: unitList[i].unit,
-            prefix: unitList[i].prefix,
-            power: useUnitsPower[pi],
-        }));
+        const result = useUnits.map((i) => {
+            // Units with an offset (like "degF") can only be used on their own, so in compound units (like "J/K"), use
+            // the unit for differences (like "deltaF") instead:
+            const { offset, delta } = this._getUnitData(unitList[i].unit);
+            const unit = offset && delta && (useUnits.length > 1 || powers[i] !== 1) ? delta : unitList[i].unit;
+            return { unit, prefix: unitList[i].prefix, power: powers[i] };
+        });
+        pickedUnitsCache.set(registryKey, registryCache.set(allUnits, cache.set(cacheKey, result)));
+        return result;
+    }
+
+    /** Internal method: look up a unit (e.g. "km"), using this Quantity's unit registry if it has one. */
+    protected _getUnitData(unit: string): Unit {
+        return this.registry ? this.registry.getUnitData(unit) : getUnitData(unit);
+    }
+
+    /** Internal method: parse a unit string (e.g. "km/h"), using this Quantity's unit registry if it has one. */
+    protected _parseUnits(unitStr: string): ParsedUnit[] {
+        return this.registry ? this.registry.parseUnits(unitStr) : parseUnits(unitStr);
     }
 
     /**
-     * Internal method: given a list of possible units, pick the most compact subset
-     * that can be used to represent this quantity.
-     *
-     * This algorithm doesn't always succeed (e.g. it can't pick "C/s" from [C, s] to
-     * represent A - amperes), but it will work if given a good basis set (e.g. the
-     * SI base units), and it does produce an optimal result in most cases.
-     *
-     * For challenging cases like picking Coulombs per second to represent 1 Ampere,
-     * from a list of units that has [Coulombs, seconds] only, it's necessary to
-     * use a different algorithm, like expressing the problem as a set of linear
-     * equations and using Gauss–Jordan elimination to solve for the coefficients.
-     */
-    protected pickUnitsFromListIterativeReduction(
-        unitArray: Dimensions[],
-    ): { useUnits: number[]; useUnitsPower: number[] } {
-        // Loop through each dimension and create a list of unit list indexes that
-        // are the best match for the dimension
-        const useUnits: number[] = [];
-        const useUnitsPower: number[] = [];
-        let remainder = this._dimensions;
-        while (remainder.dimensionality > 0) {
-            let bestIdx = -1;
-            let bestInv = false;
-            let bestRemainder = remainder;
-            unitsLoop:
-            for (let unitIdx = 0; unitIdx < unitArray.length; unitIdx++) {
-                const unitDimensions = unitArray[unitIdx];
-                let isInv = false;
-                do {
-                    const newRemainder = isInv ? remainder.multiply(unitDimensions) : remainder.divide(unitDimensions);
-                    // If this unit reduces the dimensionality more than the best candidate unit yet found,
-                    // or reduces the dimensionality by the same amount but is in the numerator rather than denominator:
-                    if (
-                        (newRemainder.dimensionality < bestRemainder.dimensionality) ||
-                        (newRemainder.dimensionality === bestRemainder.dimensionality && !isInv && bestInv)
-                    ) {
-                        bestIdx = unitIdx;
-                        bestInv = isInv;
-                        bestRemainder = newRemainder;
-                        // If we've matched all the dimensions, there's no need to check more units.
-                        if (newRemainder.isDimensionless && !isInv) break unitsLoop;
-                        // Otherwise, if this unit is better than bestRemainder, we don't need to check its inverse
-                        break;
-                    }
-                    isInv = !isInv;
-                } while (isInv);
-            }
-            // Check to make sure that progress is being made towards remainder = 0
-            // If no more progress is being made then we won't be able to find a compatible unit set from this list.
-            if (bestIdx === -1) {
-                throw new InvalidConversionError();
-            }
-            // Check if the new best unit already in the set of numerator or
-            // denominator units. If it is, increase the power of that unit, if it
-            // is not, then add it.
-            const existingIdx = useUnits.indexOf(bestIdx);
-            if (existingIdx == -1) {
-                useUnits.push(bestIdx);
-                useUnitsPower.push(bestInv ? -1 : 1);
+     * Internal method: get the unit registry to use for the result of an operation on this and another Quantity.
+     * Quantities that use built-in units only can be combined with Quantities from any registry.
+     */
+    protected _combinedRegistry(y: Quantity): UnitRegistry | undefined {
+        if (this.registry && y.registry && this.registry !== y.registry) {
+            throw new QuantityError("Cannot combine quantities that use different unit registries.");
+        }
+        return this.registry ?? y.registry;
+    }
+
+    /**
+     * Get the uncertainty model to use for the result of combining this Quantity with another. Only values that have
+     * an uncertainty matter; combining values that both have uncertainty using different models is an error.
+     */
+    protected _combinedUncertaintyModel(y: Quantity): UncertaintyModel {
+        if (this._plusMinus && y._plusMinus && this._uncertaintyModel !== y._uncertaintyModel) {
+            throw new QuantityError("Cannot combine quantities that use different uncertainty models.");
+        }
+        return this._plusMinus || !y._plusMinus ? this._uncertaintyModel : y._uncertaintyModel;
+    }
+
+    /** Internal helper: get the kind of quantity that the given units are for, if they're a unit like "Bq". */
+    private _kindOfUnits(units: readonly ParsedUnit[]): string | undefined {
+        return units.length === 1 && units[0].power === 1 ? this._getUnitData(units[0].unit).kind : undefined;
+    }
+
+    /**
+     * Internal helper: get the kind of quantity that results from adding this and y. If only one of them has a
+     * kind, it's used for the result. Kinds that have their own SI units (like "torque" and "energy", or
+     * "absorbed dose" and "equivalent dose") can't be added together, and neither can a quantity of one of those kinds
+     * and a quantity in the SI units of another one, like "Bq" and "Hz". Other kinds can only be added together if
+     * the registry has {@link UnitRegistry.strictKinds} disabled, and then the result has no kind.
+     */
+    protected _combinedKind(y: Quantity): string | undefined {
+        if (this._kind === y._kind) return this._kind;
+        const xKind = this._kind ?? (y._kind !== undefined ? this._kindOfSIUnits() : undefined);
+        const yKind = y._kind ?? (this._kind !== undefined ? y._kindOfSIUnits() : undefined);
+        if (xKind === undefined || yKind === undefined || xKind === yKind) return this._kind ?? y._kind;
+        const distinct = Object.hasOwn(kindSIUnits, xKind) && Object.hasOwn(kindSIUnits, yKind);
+        if (distinct || this._combinedRegistry(y)?.strictKinds) {
+            throw new QuantityError(`Cannot add quantities of different kinds ("${xKind}" and "${yKind}").`);
+        }
+        return undefined;
+    }
+
+    /** Internal helper: get the kind of quantity that this Quantity's units are the SI units for, like "Hz". */
+    private _kindOfSIUnits(): string | undefined {
+        const units = this.unitOutput;
+        if (units === undefined) return undefined;
+        return Object.keys(kindSIUnits).find((kind) => {
+            const kindUnits = Quantity._kindSIUnits(kind)?.unitOutput ?? [];
+            return kindUnits.length === units.length &&
+                kindUnits.every((u, i) => u.unit === units[i].unit && u.power === units[i].power);
+        });
+    }
+
+    /**
+     * Internal helper: get the SI units for a kind of quantity like "torque" that has its own SI units, as a Quantity
+     * with a magnitude of 1.
+     */
+    private static _kindSIUnits(kind: string | undefined): Quantity | undefined {
+        if (kind === undefined || !Object.hasOwn(kindSIUnits, kind)) return undefined;
+        let result = kindSIUnitsCache.get(kind);
+        if (result === undefined) {
+            result = new Quantity(1, { units: kindSIUnits[kind] });
+            kindSIUnitsCache.set(kind, result);
+        }
+        return result;
+    }
+
+    /** Make sure that this Quantity has the right dimensions for its kind, if it's a kind like "torque". */
+    private _checkKind() {
+        const kindUnits = Quantity._kindSIUnits(this._kind);
+        if (kindUnits && !kindUnits._dimensions.equalTo(this._dimensions)) {
+            throw new QuantityError(
+                `A quantity of kind "${this._kind}" must have the same dimensions as "${kindUnits.get().units}".`,
+            );
+        }
+    }
+
+    /** Internal helper: pick the SI units to use for this Quantity, if it doesn't have any output units. */
+    private _siUnits(): readonly ParsedUnit[] {
+        return Quantity._kindSIUnits(this._kind)?.unitOutput ?? this.pickUnitsFromList(baseSIUnits);
+    }
+
+    /**
+     * Internal helper: if this is an absolute value in a unit with an offset, like "20 degC" (a specific temperature,
+     * as opposed to a difference in temperature like "20 deltaC"), get that unit, and the units for the difference
+     * between two such values (if it has a {@link Unit.delta} unit).
+     */
+    private _offsetUnit(): { unit: string; deltaUnits: ParsedUnit[] | undefined } | undefined {
+        if (this.unitOutput?.length !== 1) return undefined;
+        const { unit, prefix } = this.unitOutput[0];
+        const { offset, delta } = this._getUnitData(unit);
+        if (!offset) return undefined;
+        // Keep any prefix, so that the difference between two values in "kPa-g" is in "kPa":
+        const deltaUnits = delta ? [{ prefix, unit: delta, power: 1 }] : undefined;
+        return { unit: toUnitString(this.unitOutput), deltaUnits };
+    }
+
+    /**
+     * Internal helper: if this value is in a logarithmic unit like "20 dBm" or "3 dB", get that unit, and whether it's
+     * a level (relative to some reference value, like 1 mW) rather than a ratio (like a gain of 3 dB).
+     */
+    private _logarithmicUnit(): LogarithmicUnitOutput | undefined {
+        if (this.unitOutput?.length !== 1) return undefined;
+        const { logarithmic } = this._getUnitData(this.unitOutput[0].unit);
+        if (!logarithmic) return undefined;
+        return {
+            units: this.unitOutput,
+            unit: toUnitString(this.unitOutput),
+            decibels: logarithmic.decibels,
+            isLevel: !this._dimensions.isDimensionless,
+        };
+    }
+
+    /**
+     * Internal helper for the constructor: convert the magnitude and tolerance of this Quantity from a value in the
+     * given logarithmic unit to a ratio of its reference level, e.g. from "20±1 dBm" to "100 +25.9 -20.6" (times 1 mW).
+     */
+    private _fromLogarithmic(logarithmic: NonNullable<Unit["logarithmic"]>, unit: string) {
+        const [lower, upper] = this._bounds().map((bound) => fromLogarithmic(bound, logarithmic)).sort((a, b) => a - b);
+        this._magnitude = fromLogarithmic(this._magnitude, logarithmic);
+        if (!isFinite(this._magnitude)) throw new QuantityError(`Invalid magnitude value for the unit "${unit}"`);
+        if (this._plusMinus) {
+            if (this._uncertaintyModel === "gaussian") {
+                // Standard deviations are always symmetric, so use the larger side:
+                this._plusMinus = Math.max(upper - this._magnitude, this._magnitude - lower);
             } else {
-                useUnitsPower[existingIdx] += bestInv ? -1 : 1;
+                this._setTolerance(upper - this._magnitude, this._magnitude - lower);
             }
-            remainder = bestRemainder;
         }
+    }
 
-        return { useUnits, useUnitsPower };
+    /**
+     * Throw an error if this is an absolute value in a unit with an offset, like "20 degC", or a value in a logarithmic
+     * unit, like "20 dBm". Multiplying such a value doesn't make sense: twice 20 °C is not 40 °C.
+     */
+    private _checkNotOffset() {
+        const offsetUnit = this._offsetUnit() ?? this._logarithmicUnit();
+        if (offsetUnit) {
+            const kindOfUnit = this._offsetUnit() ? "offset" : "logarithmic";
+            const target = this._dimensions.isDimensionless ? "a plain number" : `"${toUnitString(this._siUnits())}"`;
+            throw new QuantityError(
+                `Cannot multiply, divide, or raise to a power a quantity in the ${kindOfUnit} unit "${offsetUnit.unit}". ` +
+                    `Convert it to ${target} first.`,
+            );
+        }
+    }
+
+    /**
+     * Internal helper: get the power of ten of the last significant digit of the magnitude (in base units), e.g. -2
+     * for 1.23 m. For exact numbers (with no significantFigures), this is -Infinity.
+     */
+    private _lastSignificantDigit(): number {
+        if (!this._significantFigures) return -Infinity;
+        const exponent = Number(this._magnitude.toExponential(this._significantFigures - 1).split("e")[1]);
+        return exponent - this._significantFigures + 1;
+    }
+
+    /** Asymmetric tolerances are bounds, so they can't be used with the gaussian (standard deviation) model. */
+    private _checkUncertaintyModel() {
+        if (this._tolerance && this._uncertaintyModel === "gaussian") {
+            throw new QuantityError("Asymmetric tolerances can only be used with the worst-case uncertainty model.");
+        }
+    }
+
+    /**
+     * Internal helper: set the upper and lower tolerance of this Quantity. If they're different, this is an
+     * asymmetric tolerance, and plusMinus is set to the larger of the two.
+     */
+    private _setTolerance(plus: number, minus: number) {
+        this._plusMinus = Math.max(plus, minus);
+        this._tolerance = plus === minus ? undefined : { plus, minus };
+    }
+
+    /** Internal helper: get the lowest and highest values that are within the tolerance of this Quantity. */
+    private _bounds(): [lower: number, upper: number] {
+        return [this._magnitude - (this.minus ?? 0), this._magnitude + (this.plus ?? 0)];
     }
 
     /**
      * Clone this Quantity. This is an internal method, because as far as the public API allows,
      * Quantity objects are immutable, so there is no need to use this API publicly.
      */
-    protected _clone(options: { newUnitOutput?: readonly ParsedUnit[] | undefined } = {}): Quantity {
+    protected _clone(
+        options: {
+            newUnitOutput?: readonly ParsedUnit[] | undefined;
+            registry?: UnitRegistry | undefined;
+            kind?: string | undefined;
+        } = {},
+    ): Quantity {
         return new Quantity(this._magnitude, {
             dimensions: this._dimensions,
-            plusMinus: this._plusMinus,
-            significantFigures: this.significantFigures,
+            plusMinus: this._tolerance ? undefined : this._plusMinus,
+            plus: this._tolerance?.plus,
+            minus: this._tolerance?.minus,
+            significantFigures: this._significantFigures,
+            uncertaintyModel: this._uncertaintyModel,
+            registry: "registry" in options ? options.registry : this.registry,
+            kind: "kind" in options ? options.kind : this._kind,
             [setUnitOutput]: "newUnitOutput" in options ? options.newUnitOutput : this.unitOutput,
         });
     }
 
-    /** Add this to another Quantity, returning the result as a new Quantity object */
+    /**
+     * Get a copy of this Quantity that uses the given {@link UncertaintyModel} for its plusMinus value.
+     *
+     * ```ts
+     * const x = Q`3±0.3 m`.withUncertaintyModel("gaussian");
+     * x.add(Q`4±0.4 m`.withUncertaintyModel("gaussian")).toString()  // "7±0.5 m"
+     * ```
+     */
+    public withUncertaintyModel(uncertaintyModel: UncertaintyModel): Quantity {
+        const result = this._clone();
+        result._uncertaintyModel = uncertaintyModel;
+        result._checkUncertaintyModel();
+        return result;
+    }
+
+    /**
+     * Get a copy of this Quantity with the given kind (see {@link Quantity.kind}), or with no kind if it's undefined.
+     *
+     * ```ts
+     * Q`5 N⋅m`.withKind("torque").kind  // "torque"
+     * ```
+     */
+    public withKind(kind: string | undefined): Quantity {
+        return this._clone({ kind });
+    }
+
+    /**
+     * Add this to another Quantity, returning the result as a new Quantity object
+     *
+     * A specific temperature (or other value in a unit with an offset, like "degC") can have a difference added to it,
+     * but two specific temperatures can't be added together:
+     *
+     * ```ts
+     * Q`20 degC`.add(Q`5 deltaC`).toString()  // "25 degC"
+     * Q`20 degC`.add(Q`5 degC`)  // throws a QuantityError
+     * ```
+     *
+     * Likewise, a level in a logarithmic unit like "dBm" can have a gain (a ratio, in "dB" or "Np") added to it, but two
+     * levels can't be added together. To add the powers that they represent, convert one of them to "W" first:
+     *
+     * ```ts
+     * Q`20 dBm`.add(Q`3 dB`).toString()  // "23 dBm"
+     * Q`20 dBm`.add(Q`20 dBm`)  // throws a QuantityError
+     * Q`20 dBm`.add(Q`20 dBm`.convert("mW")).format({ significantDigits: 3 })  // "23.0 dBm"
+     * ```
+     */
     public add(y: Quantity): Quantity {
+        const xLogarithmicUnit = this._logarithmicUnit();
+        const yLogarithmicUnit = y._logarithmicUnit();
+        if (xLogarithmicUnit && yLogarithmicUnit) return this._addLogarithmic(y, xLogarithmicUnit, yLogarithmicUnit, 1);
         if (!this._dimensions.equalTo(y._dimensions)) {
             throw new QuantityError(`Cannot add quanitites with different units.`);
         }
+        const xOffsetUnit = this._offsetUnit();
+        const yOffsetUnit = y._offsetUnit();
+        if (xOffsetUnit && yOffsetUnit) {
+            throw new QuantityError(
+                `Cannot add two quantities in the offset unit "${xOffsetUnit.unit}", because they're absolute values ` +
+                    `(like specific temperatures), not amounts.`,
+            );
+        }
 
         let plusMinus = undefined;
-        if (this._plusMinus || y._plusMinus) {
-            // When adding two quantities, the values of the uncertainty/tolerance are simply added:
-            plusMinus = (this._plusMinus ?? 0) + (y._plusMinus ?? 0);
+        let plus = undefined;
+        let minus = undefined;
+        const uncertaintyModel = this._combinedUncertaintyModel(y);
+        if (this._tolerance || y._tolerance) {
+            // Adding asymmetric tolerances: the upper and lower tolerances are each added separately
+            plus = (this.plus ?? 0) + (y.plus ?? 0);
+            minus = (this.minus ?? 0) + (y.minus ?? 0);
+        } else if (this._plusMinus || y._plusMinus) {
+            if (uncertaintyModel === "gaussian") {
+                // Independent standard deviations are added in quadrature:
+                plusMinus = Math.hypot(this._plusMinus ?? 0, y._plusMinus ?? 0);
+            } else {
+                // When adding two quantities, the values of the uncertainty/tolerance are simply added:
+                plusMinus = (this._plusMinus ?? 0) + (y._plusMinus ?? 0);
+            }
         }
 
-        const significantFigures: number | undefined = undefined;
+        const magnitude = this._magnitude + y._magnitude;
+        let significantFigures: number | undefined = undefined;
         if (this.significantFigures || y.significantFigures) {
             // Rule for adding/subtracting with significant figures:
             // 1. Find the place position of the last significant digit in the least certain number
+            //    (exact numbers, which have no significantFigures, don't count)
             // 2. Add and/or subtract the numbers as usual
             // 3. The final number of significant figures is the number of digits up to the place position found in step 1
-            throw new QuantityError("Addition of significant figures is not yet implemented.");
+            const lastDigit = Math.max(this._lastSignificantDigit(), y._lastSignificantDigit());
+            const rounded = Math.round(magnitude / 10 ** lastDigit);
+            // If the result rounds to zero (e.g. 1.2 - 1.2), we can't express its precision, so use one digit.
+            significantFigures = rounded === 0 ? 1 : Math.min(Number(rounded.toExponential().split("e")[1]) + 1, 100);
         }
 
-        return new Quantity(this._magnitude + y._magnitude, {
+        return new Quantity(magnitude, {
             dimensions: this._dimensions,
             plusMinus,
+            plus,
+            minus,
             significantFigures,
-            // Preserve the output units, so that the new Quantity will remember what units were requested:
-            [setUnitOutput]: this.unitOutput,
+            uncertaintyModel,
+            registry: this._combinedRegistry(y),
+            kind: this._combinedKind(y),
+            // Preserve the output units, so that the new Quantity will remember what units were requested. Adding a
+            // difference to an absolute value like "20 degC" gives an absolute value, whichever comes first:
+            [setUnitOutput]: yOffsetUnit ? y.unitOutput : this.unitOutput,
         });
     }
 
-    /** Subtract another Quantity from this, returning the result as a new Quantity object */
+    /**
+     * Subtract another Quantity from this, returning the result as a new Quantity object
+     *
+     * The difference between two specific temperatures (or other values in a unit with an offset, like "degC") is a
+     * difference in temperature:
+     *
+     * ```ts
+     * Q`30 degC`.sub(Q`20 degC`).toString()  // "10 deltaC"
+     * Q`30 degC`.sub(Q`5 deltaC`).toString()  // "25 degC"
+     * ```
+     *
+     * Similarly, the difference between two levels in a logarithmic unit like "dBm" is a ratio in "dB":
+     *
+     * ```ts
+     * Q`20 dBm`.sub(Q`17 dBm`).toString()  // "3 dB"
+     * ```
+     */
     public sub(y: Quantity): Quantity {
-        const tempQ = y._clone();
+        const xLogarithmicUnit = this._logarithmicUnit();
+        const yLogarithmicUnit = y._logarithmicUnit();
+        if (xLogarithmicUnit && yLogarithmicUnit) {
+            return this._addLogarithmic(y, xLogarithmicUnit, yLogarithmicUnit, -1);
+        }
+        const xOffsetUnit = this._offsetUnit();
+        const yOffsetUnit = y._offsetUnit();
+        // Negating an absolute value like "20 degC" only makes sense as a difference (-20 deltaC from absolute zero):
+        const tempQ = yOffsetUnit ? y._clone({ newUnitOutput: yOffsetUnit.deltaUnits }) : y._clone();
         tempQ._magnitude = 0 - tempQ._magnitude;
-        return this.add(tempQ);
+        if (tempQ._tolerance) {
+            // Negating the value also swaps its upper and lower tolerance:
+            tempQ._tolerance = { plus: tempQ._tolerance.minus, minus: tempQ._tolerance.plus };
+        }
+        const result = this.add(tempQ);
+        return xOffsetUnit && yOffsetUnit ? result._clone({ newUnitOutput: xOffsetUnit.deltaUnits }) : result;
+    }
+
+    /**
+     * Internal helper: add (or subtract, if sign is -1) two values in logarithmic units like "20 dBm" or "3 dB", by
+     * adding their values in decibels. At most one of them can be a level like "20 dBm", unless it's the difference
+     * between two levels, which is a ratio in "dB".
+     */
+    private _addLogarithmic(
+        y: Quantity,
+        xUnit: LogarithmicUnitOutput,
+        yUnit: LogarithmicUnitOutput,
+        sign: 1 | -1,
+    ): Quantity {
+        if (xUnit.isLevel && yUnit.isLevel) {
+            if (sign === 1) {
+                throw new QuantityError(
+                    `Cannot add two quantities in the logarithmic unit "${xUnit.unit}", because that would multiply ` +
+                        `the values that they represent. Convert one of them to "${
+                            toUnitString(y._siUnits())
+                        }" first to add the values.`,
+                );
+            } else if (!this._dimensions.equalTo(y._dimensions)) {
+                throw new QuantityError(`Cannot add quanitites with different units.`);
+            }
+        } else if (yUnit.isLevel && sign === -1) {
+            throw new QuantityError(`Cannot subtract a level in "${yUnit.unit}" from a ratio in "${xUnit.unit}".`);
+        }
+        // Convert each value to a number of decibels, keeping its tolerance and significant figures:
+        const toDecibels = (q: Quantity, decibels: number) => {
+            const { units: _units, kind: _kind, ...data } = q.get();
+            return new Quantity(data.magnitude, data).multiply(new Quantity(decibels));
+        };
+        const xDecibels = toDecibels(this, xUnit.decibels);
+        const yDecibels = toDecibels(y, yUnit.decibels);
+        const sum = sign === 1 ? xDecibels.add(yDecibels) : xDecibels.sub(yDecibels);
+        // The result is a level if either value is, or a ratio (like the difference between two levels):
+        const [resultUnits, resultDecibels]: [readonly ParsedUnit[] | string, number] = xUnit.isLevel && yUnit.isLevel
+            ? ["dB", 1]
+            : yUnit.isLevel
+            ? [yUnit.units, yUnit.decibels]
+            : [xUnit.units, xUnit.decibels];
+        const { units: _units, ...result } = sum.divide(new Quantity(resultDecibels)).get();
+        return new Quantity(result.magnitude, { ...result, units: resultUnits, registry: this._combinedRegistry(y) });
     }
 
     /** Modify this Quantity in-place by multiplying it with another quantity. */
@@ -506,15 +1434,35 @@ export class Quantity {
         this._dimensions = this._dimensions.multiply(y.dimensions);
 
         // Multiply the error/tolerance/uncertainty:
-        if (this._plusMinus === undefined) {
+        this._uncertaintyModel = this._combinedUncertaintyModel(y);
+        if ((this._tolerance || y._tolerance) && !(this._plusMinus && y._plusMinus)) {
+            // Only one value has a tolerance, and it's asymmetric. Scale it by the other value, which swaps the upper
+            // and lower tolerance if the other value is negative:
+            const [x, factor] = this._plusMinus ? [this, y._magnitude] : [y, this._magnitude];
+            const [plus, minus] = factor < 0 ? [x.minus ?? 0, x.plus ?? 0] : [x.plus ?? 0, x.minus ?? 0];
+            this._setTolerance(plus * Math.abs(factor), minus * Math.abs(factor));
+        } else if (this._tolerance || y._tolerance) {
+            // At least one value has an asymmetric tolerance, so use interval arithmetic: the range of the product
+            // is bounded by the products of the ends of the two ranges.
+            const [xLower, xUpper] = this._bounds();
+            const [yLower, yUpper] = y._bounds();
+            const products = [xLower * yLower, xLower * yUpper, xUpper * yLower, xUpper * yUpper];
+            const product = this._magnitude * y._magnitude;
+            this._setTolerance(Math.max(...products) - product, product - Math.min(...products));
+        } else if (this._plusMinus === undefined) {
             if (y._plusMinus === undefined) {
                 // No error/tolerance/uncertainty in either value.
             } else {
                 // this has no error/tolerance/uncertainty, but the other value does.
-                this._plusMinus = y._plusMinus * this._magnitude;
+                this._plusMinus = y._plusMinus * Math.abs(this._magnitude);
             }
         } else {
-            if (y._plusMinus) {
+            if (y._plusMinus && this._uncertaintyModel === "gaussian") {
+                // The relative standard deviations are added in quadrature. Written in terms of the absolute
+                // values, this also works if either magnitude is zero:
+                // Δ(xy) = sqrt((y⋅Δx)² + (x⋅Δy)²)
+                this._plusMinus = Math.hypot(y._magnitude * this._plusMinus, this._magnitude * y._plusMinus);
+            } else if (y._plusMinus) {
                 // Figure out the maximum error that is possible in the product, and use that as the new
                 // plusMinus value. (Note: _adding_ the error gives a greater error than subtracting.)
                 this._plusMinus =
@@ -527,12 +1475,14 @@ export class Quantity {
                 // margin that's possible in the product.
             } else {
                 // this has error/tolerance/uncertainty, but the other value does not.
-                this._plusMinus *= y._magnitude;
+                this._plusMinus *= Math.abs(y._magnitude);
             }
         }
 
-        if (this.significantFigures || y.significantFigures) {
-            throw new QuantityError("Multiplication of significant figures is not yet implemented.");
+        if (y.significantFigures) {
+            // The result has as many significant figures as the least precise value. Exact numbers (like the
+            // conversion factors of units) have no significantFigures, so they don't change it.
+            this._significantFigures = Math.min(this._significantFigures ?? Infinity, y.significantFigures);
         }
 
         // Multiply the magnitude:
@@ -542,13 +1492,20 @@ export class Quantity {
         // public version will adjust it when needed.
     }
 
-    /** Multiply this Quantity by another Quantity and return the new result */
+    /**
+     * Multiply this Quantity by another Quantity and return the new result
+     *
+     * Absolute values in units with an offset, like "20 degC", can't be multiplied (or divided).
+     */
     public multiply(y: Quantity): Quantity {
+        this._checkNotOffset();
+        y._checkNotOffset();
+        const registry = this._combinedRegistry(y);
         // Figure out what preferred unit should be used for the new Quantity, if relevant:
         let newUnitOutput: readonly ParsedUnit[] | undefined = undefined;
         if (this.unitOutput && y.unitOutput) {
-            const xUnits = this.unitOutput.map((u) => ({ ...u, ...getUnitData(u.unit) }));
-            const yUnits = y.unitOutput.map((u) => ({ ...u, ...getUnitData(u.unit) }));
+            const xUnits = this.unitOutput.map((u) => ({ ...u, ...this._getUnitData(u.unit) }));
+            const yUnits = y.unitOutput.map((u) => ({ ...u, ...y._getUnitData(u.unit) }));
             if (xUnits.length === 1 && xUnits[0].d.isDimensionless) {
                 newUnitOutput = y.unitOutput;
             } else if (yUnits.length === 1 && yUnits[0].d.isDimensionless) {
@@ -573,21 +1530,415 @@ export class Quantity {
             newUnitOutput = this.unitOutput ?? y.unitOutput;
         }
         // Do the actual multiplication of the magnitude and dimensions:
-        const result = this._clone({ newUnitOutput });
+        const result = this._clone({ newUnitOutput, registry });
+        // Multiplying by a pure number (like "2 × 5 Bq") doesn't change what kind of quantity this is. Otherwise, the
+        // kind depends on the new units, e.g. "2 mSv/h × 3 h" is "6 mSv", an equivalent dose.
+        result._kind = y.isDimensionless
+            ? this._kind
+            : this.isDimensionless
+            ? y._kind
+            : newUnitOutput && result._kindOfUnits(newUnitOutput);
         result._multiply(y);
         return result;
     }
 
+    /** Modify this Quantity in-place by replacing it with its reciprocal (1/x) */
+    protected _invert() {
+        if (this._magnitude === 0) {
+            throw new QuantityError("Cannot divide by zero.");
+        }
+        this._dimensions = this._dimensions.invert();
+        if (this._plusMinus && this._uncertaintyModel === "gaussian") {
+            // First-order error propagation: Δ(1/x) = |d(1/x)/dx|⋅Δx = Δx / x²
+            this._plusMinus = this._plusMinus / (this._magnitude * this._magnitude);
+        } else if (this._tolerance) {
+            const [lower, upper] = this._bounds();
+            if (lower <= 0 && upper >= 0) {
+                throw new QuantityError(
+                    "Cannot divide by a quantity whose uncertainty/tolerance range includes zero.",
+                );
+            }
+            // 1/x is decreasing, so the upper tolerance comes from the lower end of the range, and vice versa:
+            const inverse = 1 / this._magnitude;
+            this._setTolerance(1 / lower - inverse, inverse - 1 / upper);
+        } else if (this._plusMinus) {
+            const absMagnitude = Math.abs(this._magnitude);
+            if (this._plusMinus >= absMagnitude) {
+                throw new QuantityError(
+                    "Cannot divide by a quantity whose uncertainty/tolerance range includes zero.",
+                );
+            }
+            // The maximum error in 1/x occurs at the end of the range that is closest to zero:
+            // 1/(|x| - Δx) - 1/|x| = Δx / (|x|⋅(|x| - Δx))
+            this._plusMinus = this._plusMinus / (absMagnitude * (absMagnitude - this._plusMinus));
+        }
+        this._magnitude = 1 / this._magnitude;
+    }
+
+    /**
+     * Get the reciprocal (1/x) of this Quantity
+     *
+     * ```ts
+     * Q`4 s`.invert().toString()  // "0.25 s^-1"
+     * ```
+     */
+    public invert(): Quantity {
+        this._checkNotOffset();
+        const result = this._clone({
+            newUnitOutput: this.unitOutput?.map((u) => ({ ...u, power: -u.power })),
+            kind: this.isDimensionless ? this._kind : undefined,
+        });
+        result._invert();
+        return result;
+    }
+
+    /**
+     * Divide this Quantity by another Quantity and return the new result
+     *
+     * ```ts
+     * Q`10 km`.divide(Q`2 h`).toString()  // "5 km/h"
+     * ```
+     */
+    public divide(y: Quantity): Quantity {
+        // Dividing by y is the same as multiplying by 1/y. Since 1/y has its worst-case error at the end of its range
+        // closest to zero, this gives the correct worst-case error for the quotient too. (And with the gaussian model,
+        // combining Δ(1/y) with Δx in quadrature gives the usual first-order result for x/y.)
+        return this.multiply(y.invert());
+    }
+
     /** Modify this Quantity in-place by raising it to the given power. */
     protected _pow(n: number) {
         if (n === 1) return;
         // Raise the dimensions to the given power. This also does a lot of error checking for us:
         this._dimensions = this._dimensions.pow(n);
-        if (this._plusMinus) {
-            // this has error/tolerance/uncertainty, so do the math for that:
-            const relativeError = this._plusMinus / this._magnitude;
-            this._plusMinus = relativeError * n;
+        if (this._magnitude < 0 && !Number.isInteger(n)) {
+            throw new QuantityError("Cannot raise a negative quantity to a fractional power.");
         }
-        this._magnitude = Math.pow(this._magnitude, n);
+        this._applyPowerFunction((x) => Math.pow(x, n), (x) => n * Math.pow(x, n - 1), n < 0);
+    }
+
+    /** Modify this Quantity in-place by taking the nth root of it. */
+    protected _root(n: number) {
+        // Take the root of the dimensions. This also checks that the result won't have fractional dimensions:
+        this._dimensions = this._dimensions.root(n);
+        if (this._magnitude < 0 && n % 2 === 0) {
+            throw new QuantityError("Cannot take an even root of a negative quantity.");
+        }
+        const root = n === 2 ? Math.sqrt : n === 3 ? Math.cbrt : (x: number) => Math.pow(x, 1 / n);
+        // Odd roots of negative numbers are negative (Math.pow() would return NaN):
+        this._applyPowerFunction(
+            (x) => x < 0 && n % 2 !== 0 ? -root(-x) : root(x),
+            (x) => root(x) / (n * x),
+            false,
+        );
+    }
+
+    /**
+     * Internal helper for _pow() and _root(): replace the magnitude with f(magnitude), and compute the new worst-case
+     * uncertainty/error/tolerance, where f is a power function that's monotonic for positive numbers.
+     *
+     * With the gaussian uncertainty model, the derivative of f (for positive numbers) is used instead:
+     * Δf = |f'(x)|⋅Δx. If the derivative is infinite (e.g. the square root of zero), we fall back to the worst case.
+     */
+    private _applyPowerFunction(
+        f: (x: number) => number,
+        derivative: (x: number) => number,
+        isNegativePower: boolean,
+    ) {
+        const slope = this._plusMinus && this._uncertaintyModel === "gaussian"
+            ? Math.abs(derivative(Math.abs(this._magnitude)))
+            : NaN;
+        if (this._plusMinus && isFinite(slope)) {
+            this._plusMinus *= slope;
+        } else if (this._tolerance) {
+            // With an asymmetric tolerance, find the range of f(x) over the range of x. Since f is monotonic for
+            // positive numbers (and for negative numbers), the extremes are at the ends of the range or at zero.
+            // (f is NaN for negative numbers if it's only defined for positive numbers, like a square root.)
+            const [lower, upper] = this._bounds();
+            if (lower <= 0 && upper >= 0 && isNegativePower) {
+                throw new QuantityError(
+                    "Cannot raise a quantity whose uncertainty/tolerance range includes zero to a negative power.",
+                );
+            }
+            const values = (lower < 0 && upper > 0 ? [lower, 0, upper] : [lower, upper]).map(f).filter((v) =>
+                !Number.isNaN(v)
+            );
+            const fMagnitude = f(this._magnitude);
+            this._setTolerance(Math.max(...values) - fMagnitude, fMagnitude - Math.min(...values));
+        } else if (this._plusMinus) {
+            // this has error/tolerance/uncertainty, so find the maximum error that's possible in f(x).
+            // The sign of the magnitude doesn't affect the size of the error, so work with |x|:
+            const absMagnitude = Math.abs(this._magnitude);
+            const lowerBound = Math.max(absMagnitude - this._plusMinus, 0);
+            if (lowerBound === 0 && isNegativePower) {
+                throw new QuantityError(
+                    "Cannot raise a quantity whose uncertainty/tolerance range includes zero to a negative power.",
+                );
+            }
+            const fAbsMagnitude = f(absMagnitude);
+            this._plusMinus = Math.max(
+                Math.abs(f(absMagnitude + this._plusMinus) - fAbsMagnitude),
+                Math.abs(f(lowerBound) - fAbsMagnitude),
+            );
+        }
+        this._magnitude = f(this._magnitude);
+    }
+
+    /**
+     * Internal helper for pow() and root(): compute the unitOutput of x^n, given the new power of each unit.
+     * If any of the units would end up with a fractional power, returns undefined so that the result will use SI
+     * units instead.
+     */
+    private _unitOutputForPower(newPower: (power: number) => number): ParsedUnit[] | undefined {
+        if (this.unitOutput === undefined) return undefined;
+        if (this.unitOutput.length === 1 && this._getUnitData(this.unitOutput[0].unit).d.isDimensionless) {
+            // Special case for dimensionless units like "%": (50 %)^2 is 25 %, like with multiply()
+            return [...this.unitOutput];
+        }
+        const newUnitOutput = this.unitOutput.map((u) => ({ ...u, power: newPower(u.power) }));
+        return newUnitOutput.every((u) => Number.isInteger(u.power) && u.power !== 0) ? newUnitOutput : undefined;
+    }
+
+    /**
+     * Raise this Quantity to the given power, and return the new result
+     *
+     * n doesn't have to be an integer, as long as the result has whole-number dimensions.
+     *
+     * ```ts
+     * Q`3 m`.pow(2).toString()  // "9 m^2"
+     * Q`9 m^2`.pow(0.5).toString()  // "3 m"
+     * ```
+     */
+    public pow(n: number): Quantity {
+        this._checkNotOffset();
+        const result = this._clone({
+            newUnitOutput: this._unitOutputForPower((p) => p * n),
+            kind: n === 1 || this.isDimensionless ? this._kind : undefined,
+        });
+        result._pow(n);
+        return result;
+    }
+
+    /**
+     * Take the nth root of this Quantity, and return the new result
+     *
+     * This is only possible if the result has whole-number dimensions, e.g. the cube root of `27 m^3` is `3 m`, but
+     * the cube root of `27 m` is an error.
+     *
+     * ```ts
+     * Q`27 m^3`.root(3).toString()  // "3 m"
+     * ```
+     */
+    public root(n: number): Quantity {
+        this._checkNotOffset();
+        const result = this._clone({
+            newUnitOutput: this._unitOutputForPower((p) => p / n),
+            kind: n === 1 || this.isDimensionless ? this._kind : undefined,
+        });
+        result._root(n);
+        return result;
+    }
+
+    /**
+     * Take the square root of this Quantity, and return the new result
+     *
+     * ```ts
+     * Q`9 m^2`.sqrt().toString()  // "3 m"
+     * Q`4 m`.sqrt()  // throws QuantityError, since √m is not a valid unit.
+     * ```
+     */
+    public sqrt(): Quantity {
+        return this.root(2);
+    }
+
+    /**
+     * Internal helper for the trigonometric functions: replace the magnitude with f(magnitude), and compute the new
+     * uncertainty/error/tolerance.
+     *
+     * With the worst-case model, the range of f(x) is found from its values at the ends of the range of x and at any
+     * turning points (local minima/maxima) of f in between. With the gaussian model, Δf = |f'(x)|⋅Δx.
+     */
+    private _applyTrigFunction(
+        f: (x: number) => number,
+        derivative: (x: number) => number,
+        turningPoints: (lower: number, upper: number) => number[] = () => [],
+    ) {
+        if (this._plusMinus && this._uncertaintyModel === "gaussian") {
+            this._plusMinus *= Math.abs(derivative(this._magnitude));
+        } else if (this._plusMinus) {
+            const [lower, upper] = this._bounds();
+            const values = [lower, ...turningPoints(lower, upper), upper].map(f).filter((v) => !Number.isNaN(v));
+            const fMagnitude = f(this._magnitude);
+            const plus = Math.max(...values) - fMagnitude;
+            const minus = fMagnitude - Math.min(...values);
+            if (this._tolerance) {
+                this._setTolerance(plus, minus);
+            } else {
+                this._plusMinus = Math.max(plus, minus);
+            }
+        }
+        this._magnitude = f(this._magnitude);
+    }
+
+    /**
+     * Internal helper: get a copy of this Quantity to use as the input of a trigonometric function, checking that it
+     * is an angle (or a dimensionless number, which is treated as an angle in radians).
+     */
+    private _angleInput(functionName: string): Quantity {
+        // Units like "%" or "dB" are dimensionless too, but a value in those units isn't an angle. Units that cancel
+        // out (like "m/km") are fine though, as the result is a plain number.
+        const isAngleOrNumber = (this.unitOutput ?? []).every((u) => {
+            const unitData = this._getUnitData(u.unit);
+            return unitData.angular || !unitData.d.isDimensionless;
+        });
+        if (!this.isDimensionless || !isAngleOrNumber) {
+            throw new QuantityError(`${functionName}() can only be used with an angle or a plain number.`);
+        }
+        return this._clone({ newUnitOutput: undefined });
+    }
+
+    /**
+     * Internal helper: get a copy of this Quantity to use as the input of an inverse trigonometric function, checking
+     * that it is a dimensionless number. The result will be an angle in radians.
+     */
+    private _inverseTrigInput(functionName: string): Quantity {
+        if (!this.isDimensionless) {
+            throw new QuantityError(`${functionName}() can only be used with a dimensionless quantity.`);
+        }
+        return this._clone({ newUnitOutput: [{ unit: "rad", power: 1 }] });
+    }
+
+    /**
+     * Get the sine of this angle. Dimensionless numbers are treated as angles in radians.
+     *
+     * ```ts
+     * Q`90 deg`.sin().toString()  // "1"
+     * Q`30 deg`.sin().format({ significantDigits: 3 })  // "0.500"
+     * ```
+     */
+    public sin(): Quantity {
+        const result = this._angleInput("sin");
+        // sin(x) has turning points at π/2 + kπ
+        result._applyTrigFunction(Math.sin, Math.cos, (l, u) => multiplesOfPiBetween(l, u, Math.PI / 2));
+        return result;
+    }
+
+    /**
+     * Get the cosine of this angle. Dimensionless numbers are treated as angles in radians.
+     *
+     * ```ts
+     * Q`0.5 rev`.cos().toString()  // "-1"
+     * ```
+     */
+    public cos(): Quantity {
+        const result = this._angleInput("cos");
+        // cos(x) has turning points at kπ
+        result._applyTrigFunction(Math.cos, (x) => -Math.sin(x), (l, u) => multiplesOfPiBetween(l, u, 0));
+        return result;
+    }
+
+    /**
+     * Get the tangent of this angle. Dimensionless numbers are treated as angles in radians.
+     *
+     * ```ts
+     * Q`45 deg`.tan().format({ significantDigits: 3 })  // "1.00"
+     * ```
+     */
+    public tan(): Quantity {
+        const result = this._angleInput("tan");
+        // tan(x) has no turning points, but it is undefined at π/2 + kπ
+        const [lower, upper] = result._bounds();
+        if (result._plusMinus && multiplesOfPiBetween(lower, upper, Math.PI / 2).length > 0) {
+            throw new QuantityError(
+                "Cannot take the tangent of an angle whose uncertainty/tolerance range includes 90° (+ a multiple of 180°).",
+            );
+        }
+        result._applyTrigFunction(Math.tan, (x) => 1 / Math.cos(x) ** 2);
+        return result;
+    }
+
+    /**
+     * Get the arcsine (inverse sine) of this dimensionless quantity, as an angle in radians.
+     *
+     * ```ts
+     * Q`1`.asin().convert("deg").toString()  // "90 deg"
+     * ```
+     */
+    public asin(): Quantity {
+        const result = this._inverseTrigInput("asin");
+        if (Math.abs(result._magnitude) > 1) {
+            throw new QuantityError("asin() is only defined for values from -1 to 1.");
+        }
+        result._applyTrigFunction(Math.asin, (x) => 1 / Math.sqrt(1 - x * x));
+        return result;
+    }
+
+    /**
+     * Get the arccosine (inverse cosine) of this dimensionless quantity, as an angle in radians.
+     *
+     * ```ts
+     * Q`-1`.acos().convert("deg").toString()  // "180 deg"
+     * ```
+     */
+    public acos(): Quantity {
+        const result = this._inverseTrigInput("acos");
+        if (Math.abs(result._magnitude) > 1) {
+            throw new QuantityError("acos() is only defined for values from -1 to 1.");
+        }
+        result._applyTrigFunction(Math.acos, (x) => -1 / Math.sqrt(1 - x * x));
+        return result;
+    }
+
+    /**
+     * Get the angle (in radians, from -π to π) between the positive x axis and the point (x, y), like `Math.atan2()`.
+     * The two quantities must have the same dimensions, e.g. two lengths.
+     *
+     * ```ts
+     * Quantity.atan2(Q`1 m`, Q`-100 cm`).convert("deg").toString()  // "135 deg"
+     * ```
+     */
+    public static atan2(y: Quantity, x: Quantity): Quantity {
+        if (!y.sameDimensionsAs(x)) {
+            throw new QuantityError("atan2() can only be used with two quantities that have the same dimensions.");
+        }
+        const uncertaintyModel = y._combinedUncertaintyModel(x);
+        const angle = Math.atan2(y._magnitude, x._magnitude);
+        let plus = undefined;
+        let minus = undefined;
+        if (uncertaintyModel === "gaussian" && (x._plusMinus || y._plusMinus)) {
+            // The partial derivatives of atan2(y, x) are x/r² and -y/r²:
+            const r2 = x._magnitude ** 2 + y._magnitude ** 2;
+            plus = minus = Math.hypot(x._magnitude * (y._plusMinus ?? 0), y._magnitude * (x._plusMinus ?? 0)) / r2;
+        } else if (x._plusMinus || y._plusMinus) {
+            // The range of (x, y) is a rectangle. As long as it doesn't include the origin, the extreme angles are at
+            // its corners. Measure each corner's angle relative to the main angle, so it doesn't wrap around at ±π.
+            const [xLower, xUpper] = x._bounds();
+            const [yLower, yUpper] = y._bounds();
+            if (xLower <= 0 && xUpper >= 0 && yLower <= 0 && yUpper >= 0) {
+                throw new QuantityError(
+                    "Cannot compute atan2() when the uncertainty/tolerance range includes the point (0, 0).",
+                );
+            }
+            const offsets = [xLower, xUpper].flatMap((xCorner) =>
+                [yLower, yUpper].map((yCorner) => {
+                    const cornerAngle = Math.atan2(yCorner, xCorner) - angle;
+                    return Math.atan2(Math.sin(cornerAngle), Math.cos(cornerAngle));
+                })
+            );
+            plus = Math.max(...offsets, 0);
+            minus = -Math.min(...offsets, 0);
+            if (!x._tolerance && !y._tolerance) {
+                plus = minus = Math.max(plus, minus);
+            }
+        }
+        const significantFigures = Math.min(y._significantFigures ?? Infinity, x._significantFigures ?? Infinity);
+        return new Quantity(angle, {
+            dimensions: Dimensionless,
+            ...(plus === minus ? { plusMinus: plus } : { plus, minus }),
+            significantFigures: isFinite(significantFigures) ? significantFigures : undefined,
+            uncertaintyModel,
+            registry: y._combinedRegistry(x),
+            [setUnitOutput]: [{ unit: "rad", power: 1 }],
+        });
     }
 }
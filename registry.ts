@@ -0,0 +1,212 @@
+import { Dimensions } from "./dimensions.ts";
+import { QuantityError } from "./error.ts";
+import { parseQuantityString } from "./q.ts";
+import { Quantity, type UncertaintyModel } from "./quantity.ts";
+import { builtInUnits, getUnitData, type ParsedUnit, parseUnits, prefixes, type Unit } from "./units.ts";
+
+/** Options that change how the quantities of a {@link UnitRegistry} behave. */
+export interface UnitRegistryOptions {
+    /**
+     * The {@link UncertaintyModel} to use for new quantities that don't specify one. Default is `"worst-case"`.
+     *
+     * ```ts
+     * const registry = new UnitRegistry({}, { uncertaintyModel: "gaussian" });
+     * registry.Q`3±0.3 m`.add(registry.Q`4±0.4 m`).toString();  // "7±0.5 m"
+     * ```
+     */
+    uncertaintyModel?: UncertaintyModel;
+    /**
+     * If true, {@link UnitRegistry.Q} sets the significantFigures of each number based on how it's written, e.g.
+     * `1.20 m` has three significant figures and `1200 m` has two. Default is false, so that numbers in Q strings are
+     * exact.
+     */
+    inferSignificantFigures?: boolean;
+    /**
+     * If true, adding or subtracting quantities of any two different kinds (see {@link Quantity.kind}) is an error,
+     * including custom kinds. Default is false, so that only the kinds that have their own units (like "torque" and
+     * "energy", or "absorbed dose" and "equivalent dose") can't be mixed.
+     */
+    strictKinds?: boolean;
+}
+
+/**
+ * A set of units that Quantities can use: all of the {@link builtInUnits}, plus any number of units that you define
+ * yourself.
+ *
+ * ```ts
+ * const registry = new UnitRegistry({
+ *     ton_short: { s: 907.18474, d: new Dimensions([1, 0, 0, 0, 0, 0, 0, 0]) },
+ * });
+ * registry.Q`3 ton_short`.convert("kg").toString();  // "2721.55422 kg"
+ * ```
+ *
+ * Quantities that are created using a registry remember it, and will use it whenever they need to parse or look up
+ * units (e.g. in `convert()`, `multiply()`, or `get()`).
+ *
+ * A registry can also change how its quantities behave, using {@link UnitRegistryOptions}:
+ *
+ * ```ts
+ * const registry = new UnitRegistry({}, { inferSignificantFigures: true });
+ * registry.Q`1.20 m * 3.1 m`.toString();  // "3.7 m^2"
+ * ```
+ */
+export class UnitRegistry {
+    /** The units that have been defined in this registry, in addition to the built-in units */
+    readonly #customUnits: Record<string, Unit> = {};
+
+    /** The {@link UncertaintyModel} used by quantities in this registry that don't specify one. */
+    public readonly uncertaintyModel: UncertaintyModel;
+    /** Whether {@link UnitRegistry.Q} takes the significant figures of numbers from how they're written. */
+    public readonly inferSignificantFigures: boolean;
+    /** Whether adding or subtracting quantities of any two different kinds is an error. */
+    public readonly strictKinds: boolean;
+
+    /**
+     * Create a new registry, optionally with some custom units. Units can be defined using a {@link Unit} object or a
+     * string, as described in {@link UnitRegistry.defineUnit}. They are defined in order, so string definitions can
+     * refer to the units that come before them.
+     */
+    constructor(customUnits: Readonly<Record<string, Unit | string>> = {}, options: UnitRegistryOptions = {}) {
+        this.uncertaintyModel = options.uncertaintyModel ?? "worst-case";
+        if (this.uncertaintyModel !== "worst-case" && this.uncertaintyModel !== "gaussian") {
+            throw new QuantityError(`Invalid uncertainty model "${this.uncertaintyModel}"`);
+        }
+        this.inferSignificantFigures = options.inferSignificantFigures ?? false;
+        this.strictKinds = options.strictKinds ?? false;
+        for (const [name, unit] of Object.entries(customUnits)) {
+            this.defineUnit(name, unit);
+        }
+    }
+
+    /** The custom units that have been defined in this registry (not including the built-in units). */
+    public get customUnits(): Readonly<Record<string, Unit>> {
+        return this.#customUnits;
+    }
+
+    /**
+     * Define a new unit in this registry.
+     *
+     * The unit can be defined directly, by giving its scale and dimensions:
+     *
+     * ```ts
+     * registry.defineUnit("pax_km", { s: 1000, d: new Dimensions([0, 1, 0, 0, 0, 0, 0, 0, 1], ["pax"]) });
+     * ```
+     *
+     * Or it can be defined in terms of existing units, in which case the scale and dimensions are derived
+     * automatically:
+     *
+     * ```ts
+     * registry.defineUnit("_crate", "12 _bottle");
+     * registry.defineUnit("_trip", "42 km");
+     * registry.defineUnit("battery", "1.5 kW⋅h", { prefixable: true });
+     * registry.Q`3 _crate`.convert("_bottle").toString();  // "36 _bottle"
+     * ```
+     *
+     * The unit name must not be the same as any existing unit (including prefixed units like "km"). Names that start
+     * with an underscore normally represent a base unit in a custom dimension, but can be defined here to give them a
+     * different meaning.
+     */
+    public defineUnit(
+        name: string,
+        definition: Unit | string,
+        options: Pick<Unit, "prefixable" | "binaryPrefixable" | "kind"> = {},
+    ): Unit {
+        const unit = typeof definition === "string" ? this.#deriveUnit(name, definition, options) : definition;
+        if (!/^[^\s⋅/^*()\d±+-][^\s⋅/^*()±+-]*$/.test(name)) {
+            throw new QuantityError(`Invalid unit name "${name}"`);
+        }
+        if (name in builtInUnits || name in this.#customUnits) {
+            throw new QuantityError(`The unit "${name}" is already defined.`);
+        }
+        if (!(unit.d instanceof Dimensions) || !isFinite(unit.s) || unit.s <= 0) {
+            throw new QuantityError(`Invalid definition for unit "${name}"`);
+        }
+        if (unit.offset !== undefined && !isFinite(unit.offset)) {
+            throw new QuantityError(`Invalid offset for unit "${name}"`);
+        }
+        if (
+            unit.logarithmic !== undefined &&
+            (!isFinite(unit.logarithmic.decibels) || unit.logarithmic.decibels === 0 || unit.offset !== undefined)
+        ) {
+            throw new QuantityError(`Invalid logarithmic scale for unit "${name}"`);
+        }
+        if (unit.delta !== undefined) {
+            // e.g. "deltaC" measures differences between "degC" temperatures, so it has the same scale but no offset:
+            const delta = this.getUnitData(unit.delta);
+            if (!delta.d.equalTo(unit.d) || delta.s !== unit.s || delta.offset) {
+                throw new QuantityError(`Invalid delta unit "${unit.delta}" for unit "${name}"`);
+            }
+        }
+        // Make sure that the new unit won't make any existing unit strings ambiguous.
+        // e.g. "min" could be "minutes" or "milli-inches", so defining a prefixable "in" unit is not allowed.
+        if (!name.startsWith("_")) {
+            let existing: ParsedUnit | undefined;
+            try {
+                [existing] = this.parseUnits(name);
+            } catch {
+                // Good, this unit name doesn't conflict with any existing unit.
+            }
+            if (existing) {
+                throw new QuantityError(
+                    `The unit name "${name}" is ambiguous: it already means "${existing.unit}" with prefix "${existing.prefix}".`,
+                );
+            }
+        }
+        const allUnits = { ...builtInUnits, ...this.#customUnits };
+        for (const prefix of Object.keys(prefixes)) {
+            const isBinary = prefix.length === 2;
+            if ((isBinary ? unit.binaryPrefixable : unit.prefixable) && (prefix + name) in allUnits) {
+                throw new QuantityError(
+                    `The unit name "${name}" is ambiguous: "${prefix}${name}" is already a unit.`,
+                );
+            }
+        }
+        this.#customUnits[name] = Object.freeze({ ...unit });
+        return this.#customUnits[name];
+    }
+
+    /** Derive the scale and dimensions of a unit from an expression like "12 _bottle" */
+    #deriveUnit(name: string, expression: string, options: Pick<Unit, "prefixable" | "binaryPrefixable">): Unit {
+        const quantity = this.Q(expression);
+        if (quantity.plusMinus) {
+            throw new QuantityError(`The definition of unit "${name}" cannot have an uncertainty/tolerance.`);
+        }
+        if (quantity.unitOutput?.some((u) => this.getUnitData(u.unit).offset)) {
+            // e.g. "1 degC" is a specific temperature, so it can't be used as the size of a unit.
+            throw new QuantityError(`The definition of unit "${name}" cannot use offset units like degC.`);
+        }
+        if (name.startsWith("_") && quantity.dimensions.customDimensionNames.includes(name.substring(1))) {
+            throw new QuantityError(`The unit "${name}" cannot be defined in terms of itself.`);
+        }
+        return { s: quantity.magnitude, d: quantity.dimensions, ...options };
+    }
+
+    /** Get the definition of a unit (built-in or custom), e.g. "m" or "ton_short" */
+    public getUnitData(unit: string): Unit {
+        return getUnitData(unit, this.#customUnits);
+    }
+
+    /** Parse a unit string like "kg⋅m/s^2" or "ton_short/h", using the units defined in this registry */
+    public parseUnits(unitStr: string): ParsedUnit[] {
+        return parseUnits(unitStr, this.#customUnits);
+    }
+
+    /** Construct a new Quantity that can use the units defined in this registry */
+    public quantity(
+        magnitude: number,
+        options: Omit<NonNullable<ConstructorParameters<typeof Quantity>[1]>, "registry"> = {},
+    ): Quantity {
+        return new Quantity(magnitude, { ...options, registry: this });
+    }
+
+    /**
+     * Construct a `Quantity` instance from a string, using the units defined in this registry.
+     *
+     * ```ts
+     * registry.Q`15 ton_short`
+     * ```
+     */
+    public Q(strings: string | readonly string[], ...keys: unknown[]): Quantity {
+        return parseQuantityString(strings, keys, this);
+    }
+}
@@ -1,4 +1,4 @@
-import { Q as ourQ } from "../mod.ts";
+import { Q as ourQ, Quantity, QuantityArray } from "../mod.ts";
 
 import JSQ_Qty from "npm:js-quantities@1.8.0";
 import PQM from "npm:pqm@1.0.0";
@@ -177,3 +177,26 @@ Deno.bench("Custom units - unitmath", { group: "custom" }, (t) => {
     if (h.toString() !== "2000 fleeb schleem / s") throw new Error(`Got ${h.toString()} unexpectedly.`);
     t.end();
 });
+
+// 100,000 "sensor readings", for comparing QuantityArray with an array of Quantity objects:
+const readings = Array.from({ length: 100_000 }, (_, i) => 500 + 100 * Math.sin(i / 1000));
+
+Deno.bench("Many values - QuantityArray", { group: "array", baseline: true }, () => {
+    const voltages = new QuantityArray(readings, { units: "mV", plusMinus: 0.5 });
+    const currents = voltages.divide(ourQ`2000 ohm`).convert("uA");
+    const power = currents.multiply(voltages).convert("uW");
+    const mean = power.mean();
+    if (Math.abs(mean.magnitude - 1.2749e-4) > 1e-7) throw new Error(`Got ${mean.toString()} unexpectedly.`);
+});
+
+Deno.bench("Many values - array of Quantity", { group: "array" }, () => {
+    const resistance = ourQ`2000 ohm`;
+    let total = new Quantity(0, { units: "uW" });
+    for (const reading of readings) {
+        const voltage = new Quantity(reading, { units: "mV", plusMinus: 0.5 });
+        const current = voltage.divide(resistance).convert("uA");
+        total = total.add(current.multiply(voltage).convert("uW"));
+    }
+    const mean = total.divide(new Quantity(readings.length));
+    if (Math.abs(mean.magnitude - 1.2749e-4) > 1e-7) throw new Error(`Got ${mean.toString()} unexpectedly.`);
+});
@@ -1,5 +1,5 @@
 import { assertEquals, AssertionError, assertThrows } from "@std/assert";
-import { InvalidConversionError, Quantity, SerializedQuantity } from "../mod.ts";
+import { InvalidConversionError, Quantity, type SerializedQuantity, type UnitSystemName } from "../mod.ts";
 
 /**
  * Ensure that the actual number is very close to the expected numeric value.
@@ -62,14 +62,43 @@ Deno.test("Quantity conversions", async (t) => {
     await check(15, { units: "%" }, "", { magnitude: 0.15 });
     await check(0.5, { units: "" }, "%", { magnitude: 50 });
     await check(300, { units: "ppm" }, "", { magnitude: 300e-6 });
+    // Angles (which are dimensionless):
+    await check(180, { units: "deg" }, "rad", { magnitude: Math.PI });
+    await check(1, { units: "rev" }, "deg", { magnitude: 360 });
+    await check(1, { units: "deg" }, "arcmin", { magnitude: 60 });
+    await check(1, { units: "arcmin" }, "arcsec", { magnitude: 60 });
+    await check(5, { units: "mrad" }, "deg", { magnitude: 0.286478898 });
+    await check(0.5, { units: "rad" }, "", { magnitude: 0.5 });
+    await check(60, { units: "rpm" }, "rad/s", { magnitude: 2 * Math.PI });
+    await check(3000, { units: "rpm" }, "rev/s", { magnitude: 50 });
+    await check(90, { units: "deg/s" }, "rpm", { magnitude: 15 });
     // Distance:
     await check(1, { units: "cm" }, "m", { magnitude: 0.01 });
     await check(2, { units: "in" }, "m", { magnitude: 0.0508 });
     await check(12, { units: "in" }, "ft", { magnitude: 1 });
     await check(1, { units: "mi" }, "ft", { magnitude: 5280 });
     await check(100, { units: "km/h" }, "mi/h", { magnitude: 62.137119224 });
+    // US customary and imperial units; reference values from NIST SP 811, Appendix B, and NIST Handbook 44:
+    await check(1, { units: "yd" }, "m", { magnitude: 0.9144 });
+    await check(1, { units: "mi" }, "yd", { magnitude: 1760 });
+    await check(1, { units: "nmi" }, "m", { magnitude: 1852 });
+    await check(1, { units: "survey_ft" }, "m", { magnitude: 0.3048006096 });
+    await check(1, { units: "survey_mi" }, "km", { magnitude: 1.609347219 });
     // Mass:
     await check(500, { units: "g" }, "kg", { magnitude: 0.5 });
+    await check(1, { units: "oz" }, "g", { magnitude: 28.349523125 });
+    await check(1, { units: "lb" }, "oz", { magnitude: 16 });
+    await check(7000, { units: "grain" }, "lb", { magnitude: 1 });
+    await check(1, { units: "grain" }, "mg", { magnitude: 64.79891 });
+    await check(1, { units: "stone" }, "kg", { magnitude: 6.35029318 });
+    await check(1, { units: "slug" }, "kg", { magnitude: 14.593902937 });
+    await check(1, { units: "slug" }, "lbf⋅s^2/ft", { magnitude: 1 });
+    await check(1, { units: "short_cwt" }, "lb", { magnitude: 100 });
+    await check(1, { units: "long_cwt" }, "kg", { magnitude: 50.80234544 });
+    await check(1, { units: "short_ton" }, "kg", { magnitude: 907.18474 });
+    await check(1, { units: "long_ton" }, "lb", { magnitude: 2240 });
+    await check(1, { units: "long_ton" }, "tonne", { magnitude: 1.0160469088 });
+    await check(3, { units: "tonne" }, "kg", { magnitude: 3000 });
     await check(500, { units: "g" }, "s^2 N / m", { magnitude: 0.5, units: "s^2⋅N/m" }); // 500 g = 0.5 kg = 0.5 (kg m / s^2) * s^2 / m
     await check(10, { units: "s^2 N / m" }, "g", { magnitude: 10_000 });
     // Mass can be expressed in Newton-hours^2 per foot.
@@ -94,6 +123,11 @@ Deno.test("Quantity conversions", async (t) => {
     await check(1, { units: "h^2" }, "s^2", { magnitude: 3600 * 3600 });
     // Temperature:
     await check(5, { units: "K" }, "deltaC", { magnitude: 5 });
+    await check(9, { units: "deltaF" }, "deltaC", { magnitude: 5 });
+    await check(10, { units: "deltaC" }, "deltaF", { magnitude: 18 });
+    await check(100, { units: "K" }, "degR", { magnitude: 180 });
+    await check(0, { units: "degF" }, "degR", { magnitude: 459.67 });
+    await check(671.67, { units: "degR" }, "degC", { magnitude: 100 });
     await check(100, { units: "degF" }, "degC", { magnitude: 37.777777778 });
     await check(100, { units: "degC" }, "degF", { magnitude: 212 });
     await check(50, { units: "degC" }, "degF", { magnitude: 122 });
@@ -104,15 +138,29 @@ Deno.test("Quantity conversions", async (t) => {
     // Speed:
     await check(1, { units: "m/s" }, "km/h", { magnitude: 3.6 });
     await check(1, { units: "c" }, "m/s", { magnitude: 299792458 });
+    await check(60, { units: "mph" }, "km/h", { magnitude: 96.56064 });
+    await check(1, { units: "mph" }, "m/s", { magnitude: 0.44704 });
+    await check(1, { units: "knot" }, "nmi/h", { magnitude: 1 });
+    await check(1, { units: "knot" }, "m/s", { magnitude: 0.514444444 });
     // Pressure
     await check(1, { units: "Pa" }, "N/m^2", { magnitude: 1 });
     await check(123, { units: "kPa" }, "psi", { magnitude: 17.839641741 });
     await check(50, { units: "psi" }, "kPa", { magnitude: 344.737864658 });
     await check(50, { units: "psi" }, "kN/m^2", { magnitude: 344.737864658 });
     await check(1, { units: "atm" }, "kPa", { magnitude: 101.325 });
+    await check(1013.25, { units: "mbar" }, "atm", { magnitude: 1 });
+    // Gauge pressure (relative to standard atmospheric pressure):
+    await check(0, { units: "Pa-g" }, "Pa", { magnitude: 101325 });
+    await check(200, { units: "kPa-g" }, "kPa", { magnitude: 301.325 });
+    await check(30, { units: "psi-g" }, "psi", { magnitude: 44.695948775 });
+    await check(1, { units: "bar" }, "bar-g", { magnitude: -0.01325 });
+    await check(2, { units: "bar-g" }, "psi-g", { magnitude: 29.007547546 });
+    await check(10, { units: "Ba" }, "Pa", { magnitude: 1 });
     // Force:
     await check(1234, { units: "kg⋅m/s^2" }, "N", { magnitude: 1234 });
     await check(1234, { units: "N" }, "g⋅m/s^2", { magnitude: 1234000 });
+    await check(1, { units: "lbf" }, "N", { magnitude: 4.4482216152605 });
+    await check(1, { units: "dyn" }, "g⋅cm/s^2", { magnitude: 1 });
     // Energy
     await check(-17, { units: "N⋅m" }, "J", { magnitude: -17 });
     // For eV we have to check without rounding:
@@ -122,15 +170,57 @@ Deno.test("Quantity conversions", async (t) => {
     await check(1, { units: "kWh" }, "MJ", { magnitude: 3.6 });
     await check(7.2, { units: "MJ" }, "kWh", { magnitude: 2 });
     await check(1, { units: "BTU" }, "J", { magnitude: 1055.05585 });
+    await check(1, { units: "erg" }, "dyn⋅cm", { magnitude: 1 });
+    await check(1, { units: "ft⋅lbf" }, "J", { magnitude: 1.3558179483314 });
     // Power
     await check(2.5, { units: "kW" }, "HP", { magnitude: 3.352555224 });
     await check(1, { units: "HP" }, "W", { magnitude: 745.699871582 });
+    // Light
+    await check(1, { units: "cd⋅sr" }, "lm", { magnitude: 1 });
+    await check(500, { units: "lm/m^2" }, "lx", { magnitude: 500 });
+    await check(100, { units: "footcandle" }, "lx", { magnitude: 1076.391041671 });
+    await check(1000, { units: "lx" }, "footcandle", { magnitude: 92.903040000 });
+    await check(1, { units: "lm/ft^2" }, "footcandle", { magnitude: 1 });
+    await check(1, { units: "lambert" }, "cd/m^2", { magnitude: 3183.098861838 });
+    await check(2, { units: "cd/cm^2" }, "lambert", { magnitude: 2 * Math.PI });
+    await check(250, { units: "mcd" }, "cd", { magnitude: 0.25 });
+    // Radiation
+    await check(1, { units: "Ci" }, "GBq", { magnitude: 37 });
+    await check(1, { units: "mCi" }, "MBq", { magnitude: 37 });
+    await check(500, { units: "mrem" }, "mSv", { magnitude: 5 });
+    await check(2, { units: "Sv" }, "rem", { magnitude: 200 });
+    await check(3, { units: "Gy" }, "J/kg", { magnitude: 3, kind: "absorbed dose" });
+    await check(20, { units: "µSv/h" }, "mSv/yr", { magnitude: 175.2 });
     // Volume
     await check(317, { units: "mL" }, "cm^3", { magnitude: 317 });
     await check(1.5, { units: "L" }, "cm^3", { magnitude: 1500 });
     await check(1234, { units: "cm^3" }, "L", { magnitude: 1.234 });
+    await check(1, { units: "us_gal" }, "L", { magnitude: 3.785411784 });
+    await check(1, { units: "us_gal" }, "in^3", { magnitude: 231 });
+    await check(1, { units: "us_gal" }, "us_qt", { magnitude: 4 });
+    await check(1, { units: "us_qt" }, "us_pt", { magnitude: 2 });
+    await check(1, { units: "us_pt" }, "us_cup", { magnitude: 2 });
+    await check(1, { units: "us_cup" }, "us_fl_oz", { magnitude: 8 });
+    await check(1, { units: "us_fl_oz" }, "mL", { magnitude: 29.5735295625 });
+    await check(1, { units: "us_fl_oz" }, "us_tbsp", { magnitude: 2 });
+    await check(1, { units: "us_tbsp" }, "us_tsp", { magnitude: 3 });
+    await check(1, { units: "us_tsp" }, "mL", { magnitude: 4.92892159375 });
+    await check(1, { units: "uk_gal" }, "L", { magnitude: 4.54609 });
+    await check(1, { units: "uk_gal" }, "uk_qt", { magnitude: 4 });
+    await check(1, { units: "uk_qt" }, "uk_pt", { magnitude: 2 });
+    await check(1, { units: "uk_pt" }, "uk_fl_oz", { magnitude: 20 });
+    await check(1, { units: "uk_fl_oz" }, "mL", { magnitude: 28.4130625 });
+    await check(1, { units: "uk_gal" }, "us_gal", { magnitude: 1.200949926 });
+    await check(1, { units: "oil_bbl" }, "us_gal", { magnitude: 42 });
+    await check(1, { units: "oil_bbl" }, "L", { magnitude: 158.987294928 });
+    await check(1, { units: "us_bu" }, "in^3", { magnitude: 2150.42 });
+    await check(1, { units: "us_bu" }, "L", { magnitude: 35.23907016688 });
     // Area
     await check(1, { units: "ha" }, "m^2", { magnitude: 1e4 });
+    await check(1, { units: "acre" }, "ft^2", { magnitude: 43560 });
+    await check(1, { units: "acre" }, "m^2", { magnitude: 4046.8564224 });
+    await check(1, { units: "survey_acre" }, "m^2", { magnitude: 4046.872609874 });
+    await check(1, { units: "survey_acre" }, "survey_ft^2", { magnitude: 43560 });
     // Information
     await check(24, { units: "b" }, "B", { magnitude: 3 }); // 24 bits is 3 bytes
     await check(1, { units: "B" }, "b", { magnitude: 8 }); // 1 Byte is 8 bits
@@ -161,6 +251,15 @@ Deno.test("Quantity conversions", async (t) => {
     // Misc
     await check(1, { units: "M" }, "mol / L", { magnitude: 1, units: "mol/L" }); // molar concentration
     await check(1, { units: "Hz" }, "s^-1", { magnitude: 1 }); // Hertz
+    // Logarithmic units:
+    await check(20, { units: "dBm" }, "mW", { magnitude: 100 });
+    await check(100, { units: "W" }, "dBm", { magnitude: 50 });
+    await check(20, { units: "dBV" }, "V", { magnitude: 10 }); // voltage is a root-power quantity
+    await check(94, { units: "dBSPL" }, "Pa", { magnitude: 1.002374467 });
+    await check(20, { units: "dB" }, "", { magnitude: 100 });
+    await check(1, { units: "Np" }, "dB", { magnitude: 8.685889638 });
+    await check(7, { units: "pH_value" }, "M", { magnitude: 1e-7 });
+    await check(1e-3, { units: "M" }, "pH_value", { magnitude: 3 });
 
     await t.step("invalid conversions", () => {
         assertThrows(() => {
@@ -241,6 +340,112 @@ Deno.test("Conversions to SI", async (t) => {
     await checkSI(5, { units: "W⋅s^2" }, { magnitude: 5, units: "J⋅s" });
     await checkSI(5, { units: "C⋅A⋅s^2/kg⋅m^2" }, { magnitude: 5, units: "S" });
     await checkSI(5, { units: "ft⋅lb" }, { magnitude: 0.691274772, units: "kg⋅m" });
+    // Simple base units are preferred over derived units that cancel out (like "V/T"):
+    await checkSI(9.8, { units: "ft/s^2" }, { magnitude: 2.98704, units: "m/s^2" });
+    await checkSI(3, { units: "cm^2/s" }, { magnitude: 0.0003, units: "m^2/s" });
+    await checkSI(5, { units: "kg/s^3⋅K" }, { magnitude: 5, units: "W/m^2⋅K" });
+    await checkSI(5, { units: "W/m^2" }, { magnitude: 5, units: "W/m^2" });
+    await checkSI(20, { units: "kcd" }, { magnitude: 20000, units: "cd" });
+    await checkSI(800, { units: "lm/m^2" }, { magnitude: 800, units: "lx" });
+    await checkSI(10, { units: "footcandle" }, { magnitude: 107.639104167, units: "lx" });
+    await checkSI(3, { units: "lx⋅m^2/s" }, { magnitude: 3, units: "cd/s" });
+    // Units like Bq and Sv are only used for one kind of quantity:
+    await checkSI(2, { units: "mCi" }, { magnitude: 74_000_000, units: "Bq" });
+    await checkSI(10, { units: "kHz" }, { magnitude: 10_000, units: "s^-1" });
+    await checkSI(10, { units: "s^-1", kind: "activity" }, { magnitude: 10, units: "Bq" });
+    await checkSI(50, { units: "mGy" }, { magnitude: 0.05, units: "Gy" });
+    await checkSI(50, { units: "rem" }, { magnitude: 0.5, units: "Sv" });
+    await checkSI(5, { units: "J/kg" }, { magnitude: 5, units: "J/kg" });
     // Complex units that can't be simplified
     await checkSI(5, { units: "V⋅kg^3⋅b^2⋅K^4⋅mol" }, { magnitude: 5, units: "V⋅kg^3⋅K^4⋅mol⋅b^2" });
 });
+
+Deno.test("Conversions to a basis of units", async (t) => {
+    const checkBasis = async (orig: string, basis: string[], expected: string) => {
+        await t.step(`${orig} using [${basis.join(", ")}] is ${expected}`, () => {
+            const [magnitude, units] = orig.split(" ");
+            const result = new Quantity(Number(magnitude), { units }).convertToBasis(basis);
+            assertEquals(result.toString(), expected);
+        });
+    };
+
+    await checkBasis("3 A", ["C", "s"], "3 C/s");
+    await checkBasis("10 J", ["N", "cm"], "1000 N⋅cm");
+    await checkBasis("2 V", ["W", "A"], "2 W/A");
+    await checkBasis("5 ohm", ["V", "A"], "5 V/A");
+    await checkBasis("1 S", ["ohm"], "1 ohm^-1");
+    await checkBasis("8 Pa", ["N", "m", "kg"], "8 N/m^2");
+    await checkBasis("4 m/s^2", ["km", "h"], "51840 km/h^2");
+    // Units that don't help are skipped, and the fewest units with the smallest powers are preferred:
+    await checkBasis("6 W", ["kg", "m", "s", "J"], "6 J/s");
+    await checkBasis("6 N⋅m", ["J", "N", "m"], "6 J");
+    // The order of the units breaks ties:
+    await checkBasis("2 kg⋅m^2/s^2", ["W", "J", "s"], "2 J");
+    await checkBasis("2 kg⋅m^2/s", ["W", "J", "s"], "2 J⋅s");
+
+    await t.step(`impossible conversions`, () => {
+        assertThrows(() => new Quantity(1, { units: "m" }).convertToBasis(["m^2"]), Error, "single unit");
+        assertThrows(() => new Quantity(1, { units: "m" }).convertToBasis(["km/h"]), Error, "single unit");
+        assertThrows(() => new Quantity(1, { units: "A" }).convertToBasis(["C", "m"]), InvalidConversionError);
+        assertThrows(() => new Quantity(1, { units: "m" }).convertToBasis([]), InvalidConversionError);
+    });
+});
+
+Deno.test("Conversions to other systems of units", async (t) => {
+    const checkSystem = async (orig: string, system: UnitSystemName, expected: string) => {
+        await t.step(`${orig} in ${system} units is ${expected}`, () => {
+            const [magnitude, units] = orig.split(" ");
+            const result = new Quantity(Number(magnitude), { units }).toSystem(system);
+            assertEquals(result.format({ significantDigits: 6 }), expected);
+        });
+    };
+
+    await checkSystem("10 N", "US customary", "2.24809 lbf");
+    await checkSystem("1 atm", "US customary", "14.6959 psi");
+    await checkSystem("1 kJ", "US customary", "737.562 lbf⋅ft");
+    await checkSystem("1 kW", "US customary", "1.34102 HP");
+    await checkSystem("1000 kg/m^3", "US customary", "8.34540 lb/us_gal");
+    await checkSystem("1 m^2", "US customary", "10.7639 ft^2");
+    await checkSystem("9.80665 m/s^2", "US customary", "32.1740 ft/s^2");
+    await checkSystem("12 V", "US customary", "12.0000 V");
+    await checkSystem("10 N", "imperial", "2.24809 lbf");
+    // Absolute temperatures are in degrees Fahrenheit, but temperature differences and compound units use "deltaF":
+    await checkSystem("300 K", "US customary", "80.3300 degF");
+    await checkSystem("20 degC", "US customary", "68.0000 degF");
+    await checkSystem("5 deltaC", "US customary", "9.00000 deltaF");
+    await checkSystem("10 J/K", "US customary", "4.09757 lbf⋅ft/deltaF");
+    await checkSystem("300 K", "imperial", "80.3300 degF");
+    await checkSystem("5 deltaC", "imperial", "9.00000 deltaF");
+    // Imperial units differ from US customary units for volume, but not mass:
+    await checkSystem("70 kg", "US customary", "154.324 lb");
+    await checkSystem("70 kg", "imperial", "154.324 lb");
+    await checkSystem("1000 kg/m^3", "imperial", "10.0224 lb/uk_gal");
+    await checkSystem("10 L", "US customary", "2.64172 us_gal");
+    await checkSystem("10 L", "imperial", "2.19969 uk_gal");
+    await checkSystem("2 L/s", "imperial", "0.439938 uk_gal/s");
+    await checkSystem("1 N", "CGS", "100000 dyn");
+    await checkSystem("1 J", "CGS", "10000000 erg");
+    await checkSystem("1 kPa", "CGS", "10000.0 Ba");
+    await checkSystem("3 m/s", "CGS", "300.000 cm/s");
+    await checkSystem("10 ft", "SI", "3.04800 m");
+    await checkSystem("10 N⋅m", "SI", "10.0000 J");
+
+    await t.step(`a custom list of units`, () => {
+        const q = new Quantity(10, { units: "m/s" });
+        assertEquals(q.toSystem([{ unit: "m", prefix: "k" }, { unit: "h" }]).toString(), "36 km/h");
+        assertEquals(q.getInSystem([{ unit: "m", prefix: "k" }, { unit: "h" }]), { magnitude: 36, units: "km/h" });
+        assertThrows(() => q.toSystem([{ unit: "g" }, { unit: "h" }]), InvalidConversionError);
+    });
+
+    await t.step(`getInSystem()`, () => {
+        assertEquals(new Quantity(1, { units: "kg" }).getInSystem("US customary"), {
+            magnitude: 2.2046226218487757,
+            units: "lb",
+        });
+        assertThrows(
+            () => new Quantity(1, { units: "kg" }).getInSystem("metric" as UnitSystemName),
+            Error,
+            'Unknown unit system "metric"',
+        );
+    });
+});
@@ -1,5 +1,6 @@
-import { assertEquals, assertThrows } from "@std/assert";
-import { Dimensions, QuantityError } from "../mod.ts";
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { Dimensionless, Dimensions, QuantityError } from "../mod.ts";
+import { solveForUnitPowers } from "../dimensions.ts";
 
 const baseDimensions = [0, 0, 0, 0, 0, 0, 0, 0] as const;
 
@@ -125,6 +126,49 @@ Deno.test(`Multiplying custom dimensions`, async (t) => {
     });
 });
 
+Deno.test(`Powers and roots of dimensions`, async (t) => {
+    await t.step(`pow(2)`, () => {
+        const a = new Dimensions([1, 2, -1, 0, 0, 0, 0, 0]);
+        assert(a.pow(2).equalTo(new Dimensions([2, 4, -2, 0, 0, 0, 0, 0])));
+    });
+
+    await t.step(`pow(0.5) is allowed if the result has whole-number dimensions`, () => {
+        const a = new Dimensions([0, 2, -4, 0, 0, 0, 0, 0]);
+        assert(a.pow(0.5).equalTo(new Dimensions([0, 1, -2, 0, 0, 0, 0, 0])));
+    });
+
+    await t.step(`pow(0.5) throws if the result would have fractional dimensions`, () => {
+        assertThrows(
+            () => new Dimensions([0, 1, 0, 0, 0, 0, 0, 0]).pow(0.5),
+            QuantityError,
+            "Cannot raise dimensions [0,1,0,0,0,0,0,0] to the power 0.5, because the result would have fractional dimensions.",
+        );
+    });
+
+    await t.step(`root(3) with custom dimensions`, () => {
+        const a = new Dimensions([...baseDimensions, 3, -6], ["bar", "foo"]);
+        assertEquals(a.root(3), new Dimensions([...baseDimensions, 1, -2], ["bar", "foo"]));
+    });
+
+    await t.step(`root(2) throws if the result would have fractional dimensions`, () => {
+        assertThrows(
+            () => new Dimensions([0, 2, 1, 0, 0, 0, 0, 0]).root(2),
+            QuantityError,
+            "Cannot take root 2 of dimensions [0,2,1,0,0,0,0,0], because the result would have fractional dimensions.",
+        );
+    });
+
+    await t.step(`root(n) requires a positive integer`, () => {
+        for (const n of [0, -2, 1.5]) {
+            assertThrows(
+                () => new Dimensions([...baseDimensions]).root(n),
+                QuantityError,
+                "n must be a positive integer",
+            );
+        }
+    });
+});
+
 Deno.test(`toString`, async (t) => {
     await t.step(`dimensionless`, () => {
         assertEquals(new Dimensions([...baseDimensions]).toString(), "[0,0,0,0,0,0,0,0]");
@@ -142,3 +186,52 @@ Deno.test(`toString`, async (t) => {
         );
     });
 });
+
+Deno.test(`solveForUnitPowers`, async (t) => {
+    const mass = new Dimensions([1, 0, 0, 0, 0, 0, 0, 0]);
+    const length = new Dimensions([0, 1, 0, 0, 0, 0, 0, 0]);
+    const time = new Dimensions([0, 0, 1, 0, 0, 0, 0, 0]);
+    const current = new Dimensions([0, 0, 0, 0, 1, 0, 0, 0]);
+    const charge = current.multiply(time);
+    const energy = mass.multiply(length.pow(2)).divide(time.pow(2));
+
+    await t.step(`dimensionless target`, () => {
+        assertEquals(solveForUnitPowers(Dimensionless, [mass, length]), [0, 0]);
+    });
+    await t.step(`current from [charge, time]`, () => {
+        assertEquals(solveForUnitPowers(current, [charge, time]), [1, -1]);
+    });
+    await t.step(`power from [mass, length, time, energy] uses the fewest units`, () => {
+        assertEquals(solveForUnitPowers(energy.divide(time), [mass, length, time, energy]), [0, 0, -1, 1]);
+    });
+    await t.step(`ties go to the units that come first`, () => {
+        assertEquals(solveForUnitPowers(length, [length, length]), [1, 0]);
+    });
+    await t.step(`dimensionless units are never used`, () => {
+        assertEquals(solveForUnitPowers(time, [Dimensionless, time]), [0, 1]);
+    });
+    await t.step(`no solution with integer powers`, () => {
+        assertEquals(solveForUnitPowers(length, [length.pow(2)]), undefined);
+        assertEquals(solveForUnitPowers(current, [charge, length]), undefined);
+    });
+    await t.step(`prefers smaller powers`, () => {
+        const temperature = new Dimensions([0, 0, 0, 1, 0, 0, 0, 0]);
+        const power = energy.divide(time);
+        // W/(m^2⋅K), not kg/(s^3⋅K):
+        const heatTransferCoefficient = power.divide(length.pow(2)).divide(temperature);
+        const units = [mass, length, time, temperature, power];
+        assertEquals(solveForUnitPowers(heatTransferCoefficient, units), [0, -2, 0, -1, 1]);
+    });
+    await t.step(`uses one unit for each dimension if it would take too many units otherwise`, () => {
+        const baseUnits = [mass, length, time, current, new Dimensions([0, 0, 0, 1, 0, 0, 0, 0])];
+        const target = baseUnits.reduce((product, d) => product.multiply(d));
+        // None of the squared units can be used, but they make every combination of units worth trying:
+        const units = [...baseUnits.map((d) => d.pow(2)), ...baseUnits];
+        assertEquals(solveForUnitPowers(target, units), [0, 0, 0, 0, 0, 1, 1, 1, 1, 1]);
+    });
+    await t.step(`custom dimensions`, () => {
+        const pax = new Dimensions([...baseDimensions, 1], ["pax"]);
+        assertEquals(solveForUnitPowers(pax.divide(time), [time, pax]), [-1, 1]);
+        assertEquals(solveForUnitPowers(pax, [time]), undefined);
+    });
+});
@@ -0,0 +1,105 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { type FormatOptions, Q, Quantity, QuantityError } from "../mod.ts";
+
+Deno.test("Quantity.format()", async (t) => {
+    const check = (quantity: Quantity, options: FormatOptions, expected: string) =>
+        t.step(`${quantity.toString()} with ${JSON.stringify(options)}`, () => {
+            assertEquals(quantity.format(options), expected);
+        });
+
+    await t.step("default options", () => {
+        assertEquals(Q`15 kg⋅m/s^2`.format(), "15 kg⋅m/s^2");
+        assertEquals(Q`-0.25 m`.format(), "-0.25 m");
+        assertEquals(Q`1.2345±0.0012 kg`.format(), "1.2345±0.0012 kg");
+        assertEquals(Q`9±0.6 m^2`.format(), "9.0±0.6 m^2");
+        assertEquals(Q`2800±12 m`.format(), "2800±12 m");
+        assertEquals(Q`123456±120 m`.format(), "123460±120 m");
+        assertEquals(Q`0.38121±0.00003 m`.format(), "0.38121±0.00003 m");
+        assertEquals(Q`1e25 m`.format(), "1×10^25 m");
+        assertEquals(Q`1.5e-9 m`.format(), "1.5×10^-9 m");
+        assertEquals(new Quantity(3.14159).format(), "3.14159");
+        assertEquals(new Quantity(2, { significantFigures: 3 }).format(), "2.00");
+        assertEquals(Q`10 +0.2 -0.05 mm`.format(), "10.00 +0.2 -0.05 mm");
+    });
+
+    // Fixed decimal places:
+    await check(Q`1234.5678 m`, { decimalPlaces: 2 }, "1234.57 m");
+    await check(Q`1234.5678 m`, { decimalPlaces: 0 }, "1235 m");
+    await check(Q`2 m`, { decimalPlaces: 3 }, "2.000 m");
+    await check(Q`0 m`, { decimalPlaces: 1 }, "0.0 m");
+    await check(Q`1.2345±0.0012 kg`, { decimalPlaces: 2 }, "1.23±0.00 kg");
+    await check(Q`5±0.25 m`, { decimalPlaces: 1 }, "5.0±0.3 m");
+    await check(Q`10 +0.25 -0.1 mm`, { decimalPlaces: 1 }, "10.0 +0.3 -0.1 mm");
+    // Significant digits:
+    await check(Q`1234.5678 m`, { significantDigits: 3 }, "1230 m");
+    await check(Q`1234.5678 m`, { significantDigits: 6 }, "1234.57 m");
+    await check(Q`0.00123456 m`, { significantDigits: 2 }, "0.0012 m");
+    await check(Q`2 m`, { significantDigits: 3 }, "2.00 m");
+    await check(Q`99.96 m`, { significantDigits: 3 }, "100 m");
+    await check(Q`12.345±0.5 m`, { significantDigits: 4 }, "12.35±0.5 m");
+    // Scientific notation:
+    await check(Q`1234.5678 m`, { notation: "scientific" }, "1.2345678×10^3 m");
+    await check(Q`1234.5678 m`, { notation: "scientific", decimalPlaces: 2 }, "1.23×10^3 m");
+    await check(Q`1234.5678 m`, { notation: "scientific", significantDigits: 2 }, "1.2×10^3 m");
+    await check(Q`9.996 m`, { notation: "scientific", decimalPlaces: 2 }, "1.00×10^1 m");
+    await check(Q`0.000521 m`, { notation: "scientific" }, "5.21×10^-4 m");
+    await check(Q`5 m`, { notation: "scientific" }, "5×10^0 m");
+    await check(Q`-0.5 m/s^2`, { notation: "scientific", superscripts: true }, "-5×10⁻¹ m/s²");
+    await check(Q`123456±120 m`, { notation: "scientific" }, "(1.2346±0.0012)×10^5 m");
+    // Engineering notation:
+    await check(Q`0.0123 A`, { notation: "engineering" }, "12.3×10^-3 A");
+    await check(Q`1234567 Hz`, { notation: "engineering", significantDigits: 3 }, "1.23×10^6 Hz");
+    await check(Q`123456 Hz`, { notation: "engineering", decimalPlaces: 1 }, "123.5×10^3 Hz");
+    await check(Q`999.96 Hz`, { notation: "engineering", decimalPlaces: 1 }, "1.0×10^3 Hz");
+    await check(Q`500 m`, { notation: "engineering", decimalPlaces: 1 }, "500.0 m");
+    await check(Q`0.0123±0.0004 A`, { notation: "engineering" }, "(12.3±0.4)×10^-3 A");
+    // Fixed notation:
+    await check(Q`1e25 m`, { notation: "fixed" }, "10000000000000000000000000 m");
+    await check(Q`1.5e-9 m`, { notation: "fixed" }, "0.0000000015 m");
+    // Digit group separators:
+    await check(Q`1234567.891 m`, { groupSeparator: "," }, "1,234,567.891 m");
+    await check(Q`1234567 m`, { groupSeparator: " ", significantDigits: 3 }, "1 230 000 m");
+    await check(Q`123 m`, { groupSeparator: "," }, "123 m");
+    await check(Q`-1234 m`, { groupSeparator: "," }, "-1,234 m");
+    await check(Q`12345±1200 m`, { groupSeparator: "," }, "12,300±1,200 m");
+    // Concise uncertainty notation:
+    await check(Q`1.2345±0.0012 kg`, { uncertainty: "concise" }, "1.2345(12) kg");
+    await check(Q`12.3±1.2 m`, { uncertainty: "concise" }, "12.3(12) m");
+    await check(Q`9±0.6 m^2`, { uncertainty: "concise" }, "9.0(6) m^2");
+    await check(Q`1.2346±0.0012 kg`, { uncertainty: "concise", decimalPlaces: 3 }, "1.235(1) kg");
+    await check(Q`1.2345±0.0012 kg`, { uncertainty: "concise", significantDigits: 3 }, "1.23(0) kg");
+    await check(Q`123456±120 m`, { uncertainty: "concise", notation: "scientific" }, "1.2346(12)×10^5 m");
+    // Unit separator:
+    await check(Q`5 m`, { unitSeparator: " " }, "5 m");
+    await check(Q`5±0.5 m`, { unitSeparator: " ", uncertainty: "concise" }, "5.0(5) m");
+    await check(new Quantity(5), { unitSeparator: " " }, "5");
+    // Superscripts:
+    await check(Q`5 kg⋅m/s^2`, { superscripts: true }, "5 kg⋅m/s²");
+
+    await t.step("invalid options", () => {
+        assertThrows(
+            () => Q`5 m`.format({ decimalPlaces: 2, significantDigits: 3 }),
+            QuantityError,
+            "Cannot specify both decimalPlaces and significantDigits.",
+        );
+        assertThrows(
+            () => Q`5 m`.format({ decimalPlaces: 1.5 }),
+            QuantityError,
+            "Invalid number of decimal places: 1.5",
+        );
+        assertThrows(() => Q`5 m`.format({ decimalPlaces: -2 }), QuantityError, "Invalid number of decimal places: -2");
+        assertThrows(() => Q`5 m`.format({ decimalPlaces: 101 }), QuantityError, "Invalid number of decimal places");
+        assertThrows(() => Q`5 m`.format({ decimalPlaces: NaN }), QuantityError, "Invalid number of decimal places");
+        assertEquals(Q`5 m`.format({ decimalPlaces: 0 }), "5 m");
+        assertThrows(
+            () => Q`5 m`.format({ significantDigits: 0 }),
+            QuantityError,
+            "Invalid number of significant digits: 0",
+        );
+    });
+
+    await t.step("toString() is unchanged", () => {
+        assertEquals(Q`9±0.6 m^2`.toString(), "9±0.6 m^2");
+        assertEquals(Q`1e25 m`.toString(), "1e+25 m");
+    });
+});
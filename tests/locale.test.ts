@@ -0,0 +1,79 @@
+import { assertEquals } from "@std/assert";
+import { getUnitLocale, Q, Quantity, registerUnitLocale, UnitRegistry } from "../mod.ts";
+
+Deno.test("Quantity.toLocaleString()", async (t) => {
+    await t.step("numbers are formatted for the locale", () => {
+        assertEquals(Q`1234.5 km`.toLocaleString("en-US"), "1,234.5 km");
+        assertEquals(Q`1234.5 km`.toLocaleString("fr"), "1 234,5 km");
+        assertEquals(Q`1234.5 km`.toLocaleString("de"), "1.234,5 km");
+        assertEquals(Q`1234.5 km`.toLocaleString("ja"), "1,234.5 km");
+        assertEquals(Q`0.1`.toLocaleString("de"), "0,1");
+        assertEquals(new Quantity(1 / 3, { units: "m" }).toLocaleString("en"), "0.3333333333333333 m");
+    });
+
+    await t.step("uncertainty", () => {
+        assertEquals(Q`1234.5678±0.012 m`.toLocaleString("de"), "1.234,568±0,012 m");
+        assertEquals(Q`9±0.6 m`.toLocaleString("fr"), "9,0±0,6 m");
+    });
+
+    await t.step("rounding options", () => {
+        assertEquals(Q`1234.5678 m`.toLocaleString("de", { decimalPlaces: 2 }), "1.234,57 m");
+        assertEquals(Q`1234.5678 m`.toLocaleString("de", { significantDigits: 2 }), "1.200 m");
+        assertEquals(
+            Q`1234.5678 m`.toLocaleString("en", { numberFormat: { useGrouping: false, maximumFractionDigits: 1 } }),
+            "1234.6 m",
+        );
+    });
+
+    await t.step("localized unit symbols", () => {
+        assertEquals(Q`5 MB`.toLocaleString("fr"), "5 Mo");
+        assertEquals(Q`5 MB/s`.toLocaleString("fr"), "5 Mo/s");
+        assertEquals(Q`20 degC`.toLocaleString("en"), "20 °C");
+        assertEquals(Q`5 kg⋅m/s^2`.toLocaleString("ja"), "5 kg⋅m/s^2");
+    });
+
+    await t.step("long unit names", () => {
+        const long = { unitDisplay: "long" } as const;
+        assertEquals(Q`1 km`.toLocaleString("en", long), "1 kilometer");
+        assertEquals(Q`5 km`.toLocaleString("en", long), "5 kilometers");
+        assertEquals(Q`1 km`.toLocaleString("en", { ...long, decimalPlaces: 1 }), "1.0 kilometers");
+        assertEquals(Q`3 ft`.toLocaleString("en", long), "3 feet");
+        assertEquals(Q`20 degC`.toLocaleString("en", long), "20 degrees Celsius");
+        assertEquals(Q`5 km/h`.toLocaleString("en", long), "5 kilometers per hour");
+        assertEquals(Q`5 km`.toLocaleString("fr", long), "5 kilomètres");
+        assertEquals(Q`1.5 km`.toLocaleString("fr", long), "1,5 kilomètre"); // In French, 1.5 is singular
+        assertEquals(Q`5 MB`.toLocaleString("fr", long), "5 mégaoctets");
+        assertEquals(Q`5 km/h`.toLocaleString("fr-CA", long), "5 kilomètres par heure");
+        assertEquals(Q`5 km/h`.toLocaleString("de", long), "5 Kilometer pro Stunde");
+        assertEquals(Q`1 h`.toLocaleString("de", long), "1 Stunde");
+        assertEquals(Q`2 µs`.toLocaleString("de", long), "2 Mikrosekunden");
+        assertEquals(Q`2 rad/s`.toLocaleString("en", long), "2 radians per second");
+        assertEquals(Q`45 deg`.toLocaleString("fr", long), "45 degrés");
+        assertEquals(Q`500 lx`.toLocaleString("en", long), "500 lux");
+        assertEquals(Q`1 klm`.toLocaleString("de", long), "1 Kilolumen");
+        assertEquals(Q`1500 rpm`.toLocaleString("de", { decimalPlaces: 0 }), "1.500 U/min");
+        assertEquals(Q`5 km`.toLocaleString("ja", long), "5キロメートル");
+        assertEquals(Q`5 km/h`.toLocaleString("ja", long), "5キロメートル毎時間");
+        // Compound units don't have long names, so the symbols are used:
+        assertEquals(Q`5 kg⋅m/s^2`.toLocaleString("en", long), "5 kg⋅m/s^2");
+        assertEquals(Q`5 m^2`.toLocaleString("en", long), "5 m^2");
+        // Unknown locales use English names:
+        assertEquals(Q`5 km`.toLocaleString("xx", long), "5 kilometers");
+    });
+
+    await t.step("custom unit names", () => {
+        const unitNames = { ...getUnitLocale("en"), units: { _pax: { short: "pax", long: "passengers" } } };
+        assertEquals(Q`20 _pax`.toLocaleString("en", { unitNames }), "20 pax");
+        assertEquals(Q`20 _pax`.toLocaleString("en", { unitNames, unitDisplay: "long" }), "20 passengers");
+        const registry = new UnitRegistry({ ton_short: "907.18474 kg" });
+        assertEquals(registry.Q`2 ton_short`.toLocaleString("de"), "2 ton_short");
+
+        const fr = getUnitLocale("fr");
+        registerUnitLocale("fr-BE", {
+            ...fr,
+            units: { ...fr.units, h: { long: { one: "heurette", other: "heurettes" } } },
+        });
+        assertEquals(Q`2 h`.toLocaleString("fr-BE", { unitDisplay: "long" }), "2 heurettes");
+        assertEquals(Q`2 h`.toLocaleString("fr", { unitDisplay: "long" }), "2 heures");
+    });
+});
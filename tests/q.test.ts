@@ -1,5 +1,5 @@
-import { assert } from "@std/assert";
-import { Q, Quantity } from "../mod.ts";
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { Q, Quantity, QuantityError, UnitRegistry } from "../mod.ts";
 
 Deno.test("Constructing Quantity instances with Q`...` template", async (t) => {
     await t.step("Q`15 m`", () => {
@@ -70,4 +70,189 @@ Deno.test("Constructing Quantity instances with Q`...` template", async (t) => {
     await check(`0.2±.01 g`, new Quantity(0.2, { units: "g", plusMinus: 0.01 }));
     await check(`60±5 W`, new Quantity(60, { units: "W", plusMinus: 5 }));
     await check(`+60±5.0000 W`, new Quantity(60, { units: "W", plusMinus: 5 }));
+    await check(`10 +0.2 -0.1 mm`, new Quantity(10, { units: "mm", plus: 0.2, minus: 0.1 }));
+    await check(`10 +0.2/-0.1 mm`, new Quantity(10, { units: "mm", plus: 0.2, minus: 0.1 }));
+    await check(`10 +0.2 −0.1 mm`, new Quantity(10, { units: "mm", plus: 0.2, minus: 0.1 }));
+    await check(`-5 +0 -1.5 V`, new Quantity(-5, { units: "V", plus: 0, minus: 1.5 }));
+});
+
+Deno.test("Q`...` expressions", async (t) => {
+    const check = (expression: string, expected: string) =>
+        t.step(`Q\`${expression}\``, () => {
+            assertEquals(Q(expression).toString(), expected);
+        });
+
+    await check(`5 m + 20 cm`, "5.2 m");
+    await check(`5 m - 20 cm`, "4.8 m");
+    await check(`(5 m + 25 cm) * 3 / 2 s`, "7.875 m/s");
+    await check(`10 km / 2 h`, "5 km/h");
+    await check(`3 / 2 s`, "1.5 s^-1");
+    await check(`2 * 3 + 4`, "10");
+    await check(`2 * (3 + 4)`, "14");
+    await check(`2 (3 m)`, "6 m");
+    await check(`-(5 m)`, "-5 m");
+    await check(`-(5 m) - -3 m`, "-2 m");
+    await check(`(3 m)^2`, "9 m^2");
+    await check(`(2 s)^-1`, "0.5 s^-1");
+    await check(`(9 m^2)^(1/2)`, "3 m");
+    await check(`2^3 m`, "8 m");
+    await check(`-2^2`, "-4");
+    await check(`5 kg/(m⋅s^2)`, "5 kg/m⋅s^2");
+    await check(`5 kg⋅(m/s)`, "5 kg⋅m/s");
+    await check(`km / h`, "1 km/h");
+    await check(`(2 m)**2`, "4 m^2");
+    await check(`5 m**2`, "5 m^2");
+    await check(`5 m²/s`, "5 m^2/s");
+    await check(`9.8 m/s/s`, "9.8 m/s^2");
+    await check(`(2±0.1 m) * 2`, "4±0.2 m");
+    await check(`(10 +0.2 -0.1 mm) * 2`, "20 +0.4 -0.2 mm");
+    await check(`-(10 +0.2 -0.1 mm)`, "-10 +0.10 -0.2 mm");
+    await check(`-5 degC`, "-5 degC");
+    await check(`-0.5 bar-g`, "-0.5 bar-g");
+    await check(`30 degC - 20 degC`, "10 deltaC");
+    await check(`5 bar-g - 2 bar-g`, "3 bar");
+    await check(`5 kPa - 2 kPa`, "3 kPa");
+    await check(`20 dBm + 3 dB - 6 dB`, "17 dBm");
+    await check(`-10 dBm + 13 dB - 6 dB`, "-3 dBm");
+    await check(`10 + 0.2 - 0.1`, "10.1");
+
+    await t.step("interpolated Quantity objects", () => {
+        const width = new Quantity(30, { units: "cm" });
+        const height = Q`2 ft`;
+        assertEquals(Q`2 * ${width} + 5 mm`.toString(), "60.5 cm");
+        assertEquals(Q`${width} ${height}`.toString(), "1828.8 cm^2");
+        assertEquals(Q`${height}^2`.toString(), "4 ft^2");
+        // The Quantity is used directly, not converted to a string and back:
+        const precise = new Quantity(1 / 3, { units: "m", plusMinus: 0.01 });
+        const result = Q`${precise} * 3`;
+        assertEquals(result.magnitude, 1);
+        assertEquals(result.plusMinus, 0.03);
+    });
+
+    await t.step("interpolated strings and numbers", () => {
+        assertEquals(Q`${5} ${"m"} + ${20} cm`.toString(), "5.2 m");
+    });
+
+    const checkError = (expression: string, errorMsg: string) =>
+        t.step(`Q\`${expression}\` is invalid`, () => {
+            assertThrows(() => Q(expression), QuantityError, errorMsg);
+        });
+
+    await checkError(``, `Unexpected end of input at column 1 of ""`);
+    await checkError(`5 m +`, `Unexpected end of input at column 6 of "5 m +"`);
+    await checkError(`5 m + * 3 m`, `Unexpected "*" at column 7 of "5 m + * 3 m"`);
+    await checkError(`(5 m + 3 m`, `Unexpected end of input at column 11 of "(5 m + 3 m"`);
+    await checkError(`5 m)`, `Unexpected ")" at column 4 of "5 m)"`);
+    await checkError(`5 m 3`, `Unexpected "3" at column 5 of "5 m 3"`);
+    await checkError(`5 ± m`, `Unexpected "m" at column 5 of "5 ± m"`);
+    await checkError(`(2 m)^m`, `Unexpected "m" at column 7 of "(2 m)^m"`);
+    await checkError(`(2 m)^(3 s)`, `Exponents must be dimensionless numbers at column 7 of "(2 m)^(3 s)"`);
+    await checkError(`5 m + 3 foo`, `Unable to parse the unit "foo" at column 9 of "5 m + 3 foo"`);
+    await checkError(`5 m + 3 s`, `Cannot add quanitites with different units.`);
+});
+
+Deno.test("Q`...` significant figures", async (t) => {
+    const registry = new UnitRegistry({}, { inferSignificantFigures: true });
+    const check = (expression: string, significantFigures: number | undefined, expected: string) =>
+        t.step(`Q\`${expression}\``, () => {
+            const x = registry.Q(expression);
+            assertEquals(x.significantFigures, significantFigures);
+            assertEquals(x.toString(), expected);
+        });
+
+    await check(`1.20 m`, 3, "1.20 m");
+    await check(`0.0120 m`, 3, "0.0120 m");
+    await check(`1200 m`, 2, "1200 m");
+    await check(`1200. m`, 4, "1200 m");
+    await check(`1.20e3 m`, 3, "1200 m");
+    await check(`5×10^3 N`, 1, "5000 N");
+    // Zero and whole numbers without units are exact:
+    await check(`0.00 m`, undefined, "0 m");
+    await check(`2 * 1.20 m`, 3, "2.40 m");
+    // Arithmetic:
+    await check(`1.20 m * 3.1 m`, 2, "3.7 m^2");
+    await check(`12.11 m + 18.0 m + 1.013 m`, 3, "31.1 m");
+    await check(`1.5 km + 20 m`, 2, "1.5 km");
+    await t.step(`other registries treat numbers as exact`, () => {
+        assertEquals(Q`1.20 m`.significantFigures, undefined);
+        assertEquals(new UnitRegistry().Q`1.20 m`.significantFigures, undefined);
+    });
+});
+
+Deno.test("Q`...` number formats", async (t) => {
+    const check = (short: string, magnitude: number, units?: string) =>
+        t.step(`Q\`${short}\``, () => {
+            const result = Q(short);
+            const expected = new Quantity(magnitude, { units });
+            assert(
+                result.equals(expected),
+                `Q\`${short}\` should equal ${expected.toString()} but got ${result.toString()}`,
+            );
+        });
+
+    // Scientific notation:
+    await check(`1.5e-3 m`, 1.5e-3, "m");
+    await check(`1.5E-3 m`, 1.5e-3, "m");
+    await check(`1.5e+3 m`, 1.5e3, "m");
+    await check(`2e3 kg`, 2000, "kg");
+    await check(`1.5e−3 m`, 1.5e-3, "m"); // Unicode minus
+    await check(`.5e2 m`, 50, "m");
+    await check(`5×10^3 N`, 5000, "N");
+    await check(`5 × 10^3 N`, 5000, "N");
+    await check(`2.5×10^-3 m`, 2.5e-3, "m");
+    await check(`2.5×10^−3 m`, 2.5e-3, "m");
+    await check(`5×10³ N`, 5000, "N");
+    await check(`2.5×10⁻³ m`, 2.5e-3, "m");
+    await check(`1×10¹² Hz`, 1e12, "Hz");
+    // "e" is only an exponent if it's followed by digits:
+    await check(`2eV`, 2, "eV");
+    await check(`2 eV`, 2, "eV");
+    await check(`1.5e-3`, 1.5e-3);
+    // Digit group separators:
+    await check(`1,200 kg`, 1200, "kg");
+    await check(`1,200,000 kg`, 1200000, "kg");
+    await check(`1,200.5 kg`, 1200.5, "kg");
+    await check(`12,345.678 kg`, 12345.678, "kg");
+    await check(`1 200 000 kg`, 1200000, "kg"); // thin space
+    await check(`1 200 kg`, 1200, "kg"); // narrow no-break space
+    await check(`1,200e3 kg`, 1200000, "kg");
+    // Unicode minus sign:
+    await check(`−3 m`, -3, "m");
+    await check(`5 m − 2 m`, 3, "m");
+    await check(`2 s^−1`, 2, "s^-1");
+    await check(`−1.5e−3 m`, -1.5e-3, "m");
+    // "×" can also be used for multiplication:
+    await check(`2 × 3 m`, 6, "m");
+    await check(`5×10 m`, 50, "m");
+
+    await t.step("uncertainty with scientific notation", () => {
+        const x = Q`1.5e-3±1e-4 m`;
+        assertEquals(x.magnitude, 1.5e-3);
+        assertEquals(x.plusMinus, 1e-4);
+        const y = Q`(5±0.1)×10^3 N`;
+        assertEquals(y.magnitude, 5000);
+        assertEquals(y.plusMinus, 100);
+    });
+
+    const checkError = (short: string, errorMsg: string) =>
+        t.step(`Q\`${short}\` is invalid`, () => {
+            assertThrows(() => Q(short), QuantityError, errorMsg);
+        });
+
+    // Ambiguous numbers that might use a decimal comma, or have invalid digit grouping:
+    const ambiguous = `(use "." as the decimal separator, and "," only between groups of three digits)`;
+    await checkError(`1,5 kg`, `Ambiguous number "1,5" ${ambiguous} at column 1 of "1,5 kg"`);
+    await checkError(`1,2345 kg`, `Ambiguous number "1,2345" ${ambiguous} at column 1`);
+    await checkError(`1234,567 kg`, `Ambiguous number "1234,567" ${ambiguous} at column 1`);
+    await checkError(`0,500 kg`, `Ambiguous number "0,500" ${ambiguous} at column 1`);
+    await checkError(`1.200,5 kg`, `Ambiguous number "1.200,5" ${ambiguous} at column 1`);
+    await checkError(`1,200 000 kg`, `Ambiguous number`);
+    await checkError(`3 m + 2,50 m`, `Ambiguous number "2,50" ${ambiguous} at column 7`);
+    // Underscores are not digit separators (rather than "1_000 m" being 1 "_000⋅m"):
+    const underscore = `("_" can't be used to separate digits; use "," between groups of three digits)`;
+    await checkError(`1_000 m`, `Invalid number "1_000" ${underscore} at column 1 of "1_000 m"`);
+    await checkError(`3 m + 1.000_5 m`, `Invalid number "1.000_5" ${underscore} at column 7`);
+    // Two numbers in a row are not implicitly multiplied:
+    await checkError(`1 200 kg`, `Unexpected "200" at column 3 of "1 200 kg"`);
+    await checkError(`1.5e-3.2 m`, `Unexpected ".2" at column 7`);
 });
@@ -0,0 +1,200 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { Dimensions, InvalidConversionError, Q, Quantity, QuantityArray, QuantityError } from "../mod.ts";
+
+Deno.test("Constructing QuantityArray instances", async (t) => {
+    await t.step(`new QuantityArray([1, 2, 3], {units: "km"})`, () => {
+        const x = new QuantityArray([1, 2, 3], { units: "km" });
+        assertEquals(x.length, 3);
+        assertEquals(Array.from(x.magnitudes), [1000, 2000, 3000]); // in m
+        assertEquals(x.get(), { magnitudes: new Float64Array([1, 2, 3]), units: "km" });
+        assertEquals(x.toString(), "[1, 2, 3] km");
+    });
+
+    await t.step(`with dimensions`, () => {
+        const x = new QuantityArray(new Float64Array([4, 5]), { dimensions: new Dimensions([1, 0, 0, 0, 0, 0, 0, 0]) });
+        assertEquals(x.toString(), "[4, 5] kg");
+    });
+
+    await t.step(`with offset units`, () => {
+        const x = new QuantityArray([0, 100], { units: "degC" });
+        assertEquals(Array.from(x.magnitudes), [273.15, 373.15]);
+        assertEquals(x.toString(), "[0, 100] degC");
+    });
+
+    await t.step(`with a shared plusMinus value`, () => {
+        const x = new QuantityArray([1, 2], { units: "cm", plusMinus: 0.5 });
+        assertEquals(x.plusMinus, 0.005);
+        assertEquals(x.get(), { magnitudes: new Float64Array([1, 2]), plusMinus: 0.5, units: "cm" });
+    });
+
+    await t.step(`with a plusMinus value per element`, () => {
+        const x = new QuantityArray([1, 2], { units: "m", plusMinus: [0.1, 0.25] });
+        assertEquals(x.toString(), "[1±0.1, 2±0.25] m");
+        assertEquals(x.at(1).toString(), "2±0.3 m");
+    });
+
+    await t.step(`invalid values are rejected`, () => {
+        assertThrows(() => new QuantityArray([1, NaN]), QuantityError, "Invalid magnitude value");
+        assertThrows(() => new QuantityArray([1, 2], { plusMinus: -1 }), QuantityError, "Invalid plusMinus value");
+        assertThrows(() => new QuantityArray([1, 2], { plusMinus: [1] }), QuantityError, "same length");
+        assertThrows(() => new QuantityArray([1], { units: "foo" }), QuantityError, 'Unable to parse the unit "foo"');
+        assertThrows(() => new QuantityArray([1], { units: "dBm" }), QuantityError, "logarithmic units");
+    });
+});
+
+Deno.test("Getting elements of a QuantityArray", async (t) => {
+    const x = new QuantityArray([5, 10, 15], { units: "ft" });
+
+    await t.step(`at()`, () => {
+        assert(x.at(0).equals(new Quantity(5, { units: "ft" })));
+        assertEquals(x.at(-1).toString(), "15 ft");
+        assertThrows(() => x.at(3), QuantityError, "Index 3 is out of range.");
+    });
+
+    await t.step(`iterating`, () => {
+        assertEquals([...x].map((q) => q.toString()), ["5 ft", "10 ft", "15 ft"]);
+    });
+});
+
+Deno.test("QuantityArray arithmetic", async (t) => {
+    const x = new QuantityArray([1, 2, 3], { units: "m" });
+
+    await t.step(`adding an array`, () => {
+        assertEquals(x.add(new QuantityArray([10, 20, 30], { units: "cm" })).toString(), "[1.1, 2.2, 3.3] m");
+    });
+
+    await t.step(`adding and subtracting a Quantity`, () => {
+        assertEquals(x.add(Q`50 cm`).toString(), "[1.5, 2.5, 3.5] m");
+        assertEquals(x.sub(Q`1 m`).toString(), "[0, 1, 2] m");
+    });
+
+    await t.step(`cannot add different dimensions or lengths`, () => {
+        assertThrows(() => x.add(Q`1 s`), QuantityError, "Cannot add quantities with different units.");
+        assertThrows(
+            () => x.add(new QuantityArray([1, 2], { units: "m" })),
+            QuantityError,
+            "Cannot combine QuantityArrays with different lengths.",
+        );
+    });
+
+    await t.step(`adding and subtracting values in units with an offset`, () => {
+        const temps = new QuantityArray([10, 20], { units: "degC" });
+        // Two specific temperatures can't be added:
+        assertThrows(
+            () => temps.add(new QuantityArray([1, 2], { units: "degC" })),
+            QuantityError,
+            `Cannot add two quantities in the offset unit "degC"`,
+        );
+        assertThrows(() => temps.add(Q`5 degC`), QuantityError, `Cannot add two quantities in the offset unit "degC"`);
+        assertThrows(
+            () => new QuantityArray([1, 3], { units: "Pa-g" }).add(new QuantityArray([1, 2], { units: "Pa-g" })),
+            QuantityError,
+            `Cannot add two quantities in the offset unit "Pa-g"`,
+        );
+        // But a difference can be added to them, whichever comes first:
+        assertEquals(temps.add(new QuantityArray([1, 2], { units: "deltaC" })).toString(), "[11, 22] degC");
+        assertEquals(temps.add(Q`5 deltaC`).toString(), "[15, 25] degC");
+        assertEquals(new QuantityArray([1, 2], { units: "deltaC" }).add(Q`20 degC`).toString(), "[21, 22] degC");
+        assertEquals(temps.sub(Q`5 deltaC`).toString(), "[5, 15] degC");
+        // The difference between two specific temperatures is a difference in temperature:
+        assertEquals(temps.sub(Q`5 degC`).toString(), "[5, 15] deltaC");
+        assertEquals(temps.sub(new QuantityArray([8, 8], { units: "degC" })).toString(), "[2, 12] deltaC");
+        assertEquals(
+            new QuantityArray([3, 5], { units: "kPa-g" }).sub(Q`1 kPa-g`).toString(),
+            "[2, 4] kPa",
+        );
+    });
+
+    await t.step(`multiplying`, () => {
+        assertEquals(x.multiply(2).toString(), "[2, 4, 6] m");
+        assertEquals(x.multiply(Q`2 kg`).toString(), "[2, 4, 6] m⋅kg");
+        assertEquals(x.multiply(x).toString(), "[1, 4, 9] m^2");
+        assertEquals(x.multiply(Q`50 %`).toString(), "[0.5, 1, 1.5] m");
+    });
+
+    await t.step(`dividing`, () => {
+        assertEquals(new QuantityArray([10, 20], { units: "km" }).divide(Q`2 h`).toString(), "[5, 10] km/h");
+        assertEquals(x.divide(x).toString(), "[1, 1, 1]");
+        assertThrows(() => x.divide(0), QuantityError, "Cannot divide by zero.");
+    });
+
+    await t.step(`converting`, () => {
+        assertEquals(new QuantityArray([1, 2], { units: "km" }).convert("m").toString(), "[1000, 2000] m");
+        assertEquals(new QuantityArray([0, 100], { units: "degC" }).convert("K").toString(), "[273.15, 373.15] K");
+        assertThrows(() => x.convert("s"), InvalidConversionError);
+    });
+
+    await t.step(`gives the same results as Quantity`, () => {
+        const a = new QuantityArray([5.3, -2.1], { units: "ft", plusMinus: [0.1, 0.2] });
+        const b = new QuantityArray([7.2, 3.3], { units: "lb", plusMinus: 0.3 });
+        const result = a.multiply(b).divide(Q`3±0.1 s`).add(Q`2 ft⋅lb/s`);
+        for (let i = 0; i < a.length; i++) {
+            const expected = a.at(i).multiply(b.at(i)).divide(Q`3±0.1 s`).add(Q`2 ft⋅lb/s`);
+            assertEquals(result.at(i).get(), expected.get());
+        }
+    });
+});
+
+Deno.test("QuantityArray statistics", async (t) => {
+    const x = new QuantityArray([4, 1, 7], { units: "kg", plusMinus: [0.1, 0.2, 0.3] });
+
+    await t.step(`sum`, () => {
+        const sum = x.sum();
+        assertEquals(sum.magnitude, 12);
+        assertEquals(sum.plusMinus, 0.6000000000000001);
+        assertEquals(sum.unitOutput, x.unitOutput);
+    });
+
+    await t.step(`mean`, () => {
+        assertEquals(x.mean().magnitude, 4);
+        assertEquals(x.mean().plusMinus, 0.6000000000000001 / 3);
+        assertThrows(() => new QuantityArray([]).mean(), QuantityError);
+    });
+
+    await t.step(`values in units with an offset`, () => {
+        const temps = new QuantityArray([10, 20], { units: "degC" });
+        assertThrows(() => temps.sum(), QuantityError, `Cannot add two quantities in the offset unit "degC"`);
+        assertEquals(new QuantityArray([10], { units: "degC" }).sum().toString(), "10 degC");
+        assertEquals(temps.mean().toString(), "15 degC");
+        assertEquals(temps.mean().get(), Quantity.mean([Q`10 degC`, Q`20 degC`]).get());
+        assertEquals(new QuantityArray([1, 2], { units: "deltaC" }).sum().toString(), "3 deltaC");
+    });
+
+    await t.step(`min and max`, () => {
+        assertEquals(x.min().toString(), "1±0.2 kg");
+        assertEquals(x.max().toString(), "7±0.3 kg");
+    });
+});
+
+Deno.test("QuantityArray kinds of quantities", async (t) => {
+    await t.step(`the kind comes from the units`, () => {
+        const x = new QuantityArray([1, 2], { units: "Bq" });
+        assertEquals(x.kind, "activity");
+        assertEquals(x.at(0).kind, "activity");
+        assertEquals(x.at(0).toSI().toString(), "1 Bq");
+        assertEquals(x.sum().toSI().toString(), "3 Bq");
+        assertEquals(x.mean().kind, "activity");
+        assertEquals(x.max().kind, "activity");
+    });
+
+    await t.step(`or from the options`, () => {
+        const x = new QuantityArray([5, 10], { units: "N⋅m", kind: "torque" });
+        assertEquals(x.kind, "torque");
+        assertEquals(x.at(1).toSI().toString(), "10 N⋅m");
+        const y = new QuantityArray([5], { dimensions: Q`1 Gy`.dimensions, kind: "absorbed dose" });
+        assertEquals(y.toString(), "[5] Gy");
+        assertThrows(() => new QuantityArray([1], { units: "m", kind: "torque" }), QuantityError);
+    });
+
+    await t.step(`the kind is kept when it makes sense`, () => {
+        const x = new QuantityArray([1, 2], { units: "kBq" });
+        assertEquals(x.convert("Hz").kind, "activity");
+        assertEquals(x.convert("Hz").at(0).toSI().toString(), "1000 Bq");
+        assertEquals(x.multiply(2).kind, "activity");
+        assertEquals(x.add(Q`5 s^-1`).kind, "activity");
+        assertThrows(() => x.add(Q`5 Hz`), QuantityError, `("activity" and "frequency")`);
+        const dose = new QuantityArray([1, 2], { units: "mGy" });
+        assertThrows(() => dose.sub(Q`5 mSv`), QuantityError, `("absorbed dose" and "equivalent dose")`);
+        assertEquals(x.multiply(Q`2 s`).kind, undefined);
+    });
+});
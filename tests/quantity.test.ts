@@ -1,5 +1,6 @@
 import {
     assert,
+    assertAlmostEquals,
     assertEquals,
     assertFalse,
     assertGreaterOrEqual,
@@ -7,7 +8,7 @@ import {
     assertNotEquals,
     assertThrows,
 } from "@std/assert";
-import { Dimensions, Quantity, QuantityError } from "../mod.ts";
+import { Dimensions, InvalidConversionError, Q, Quantity, QuantityError, UnitRegistry } from "../mod.ts";
 
 const ONE_MASS_DIMENSION = new Dimensions([1, 0, 0, 0, 0, 0, 0, 0]);
 const ONE_LENGTH_DIMENSION = new Dimensions([0, 1, 0, 0, 0, 0, 0, 0]);
@@ -144,6 +145,15 @@ Deno.test("Constructing Quantity instances with units", async (t) => {
         assertEquals(q.dimensions, FORCE_DIMENSIONS);
     });
 
+    await t.step(`units that cancel out`, () => {
+        // "m/m" is just a number, the same as a quantity with no units:
+        assertEquals(new Quantity(5, { units: "m/m" }), new Quantity(5));
+        assertEquals(new Quantity(5, { units: "m/m" }).unitOutput, undefined);
+        assertEquals(new Quantity(5, { units: "m/m" }).get(), new Quantity(5).get());
+        assertEquals(new Quantity(5, { units: "kg m/m" }), new Quantity(5, { units: "kg" }));
+        assertEquals(new Quantity(5, { units: [] }).unitOutput, undefined);
+    });
+
     await t.step(`new Quantity(20, {units: "degC"})`, () => {
         const q = new Quantity(20, { units: "degC" });
         assertEquals(q.magnitude, 293.15);
@@ -264,6 +274,135 @@ Deno.test("Adding quantities", async (t) => {
         const z = x.add(y);
         assertEquals(z.magnitude, 273.15 + 125); // in K
         assertEquals(z.dimensions, ONE_TEMP_DIMENSION);
+        assertEquals(z.toString(), "125 degC");
+        assertEquals(y.add(x).toString(), "125 degC");
+    });
+    await t.step(`two exact temperatures cannot be added together`, () => {
+        assertThrows(
+            () => Q`20 degC`.add(Q`5 degC`),
+            QuantityError,
+            `Cannot add two quantities in the offset unit "degC"`,
+        );
+        assertThrows(
+            () => Q`20 degC`.add(Q`40 degF`),
+            QuantityError,
+            `Cannot add two quantities in the offset unit "degC"`,
+        );
+        assertThrows(() => Quantity.sum([Q`20 degC`, Q`30 degC`]), QuantityError);
+    });
+});
+
+Deno.test("Temperature differences and offset units", async (t) => {
+    await t.step(`subtracting two exact temperatures gives a difference`, () => {
+        assertEquals(Q`30 degC`.sub(Q`20 degC`).toString(), "10 deltaC");
+        assertEquals(Q`20 degC`.sub(Q`30 degC`).toString(), "-10 deltaC");
+        assertEquals(Q`212 degF`.sub(Q`32 degF`).format({ significantDigits: 3 }), "180 deltaF");
+        assertEquals(Q`212 degF`.sub(Q`0 degC`).format({ significantDigits: 3 }), "180 deltaF");
+        assertEquals(Q`300 K`.sub(Q`20 degC`).format({ significantDigits: 3 }), "6.85 K");
+    });
+    await t.step(`subtracting a difference from an exact temperature`, () => {
+        assertEquals(Q`30 degC`.sub(Q`5 deltaC`).toString(), "25 degC");
+        assertEquals(Q`50 degF`.sub(Q`18 deltaF`).format({ significantDigits: 3 }), "32.0 degF");
+    });
+    await t.step(`differences in °F and °C`, () => {
+        assertEquals(Q`9 deltaF`.convert("deltaC").toString(), "5 deltaC");
+        assertEquals(Q`20 degC`.add(Q`9 deltaF`).toString(), "25 degC");
+    });
+    await t.step(`exact temperatures cannot be multiplied, divided, or raised to a power`, () => {
+        const error =
+            `Cannot multiply, divide, or raise to a power a quantity in the offset unit "degC". Convert it to "K" first.`;
+        assertThrows(() => Q`20 degC`.multiply(Q`2`), QuantityError, error);
+        assertThrows(() => Q`2`.multiply(Q`20 degC`), QuantityError, error);
+        assertThrows(() => Q`20 degC`.divide(Q`2 s`), QuantityError, error);
+        assertThrows(() => Q`2 m`.divide(Q`20 degC`), QuantityError, error);
+        assertThrows(() => Q`20 degC`.pow(2), QuantityError, error);
+        assertThrows(() => Q`20 degC`.invert(), QuantityError, error);
+        // But temperatures in kelvins, or differences in temperature, can be:
+        assertEquals(Q`20 degC`.convert("K").multiply(Q`2`).toString(), "586.3 K");
+        assertEquals(Q`20 deltaC`.divide(Q`4 km`).toString(), "5 deltaC/km");
+    });
+    await t.step(`statistics of exact temperatures`, () => {
+        const temperatures = [Q`20 degC`, Q`30 degC`, Q`25 degC`];
+        assertEquals(Quantity.mean(temperatures).toString(), "25 degC");
+        assertEquals(Quantity.median(temperatures.slice(0, 2)).toString(), "25 degC");
+        assertEquals(Quantity.range(temperatures).toString(), "10 deltaC");
+        assertEquals(
+            Quantity.stddev(temperatures, { population: true }).format({ significantDigits: 3 }),
+            "4.08 deltaC",
+        );
+    });
+    await t.step(`gauge pressures`, () => {
+        assertEquals(Q`0 psi-g`.convert("atm").toString(), "1 atm");
+        assertEquals(Q`5 bar-g`.sub(Q`2 bar-g`).toString(), "3 bar");
+        assertEquals(Q`5 bar-g`.add(Q`1 bar`).toString(), "6 bar-g");
+        assertEquals(Q`250 kPa-g`.sub(Q`100 kPa-g`).toString(), "150 kPa");
+        assertThrows(() => Q`5 bar-g`.add(Q`1 bar-g`), QuantityError, `offset unit "bar-g"`);
+        assertThrows(() => Q`5 kPa-g/m`, QuantityError, `offset unit "kPa-g". Try using "Pa" instead.`);
+        assertThrows(() => Q`5 degC^2`, QuantityError, `offset unit "degC". Try using "deltaC" instead.`);
+    });
+});
+
+Deno.test("Logarithmic units", async (t) => {
+    await t.step(`values are converted to and from linear values`, () => {
+        assertEquals(Q`20 dBm`.convert("mW").toString(), "100 mW");
+        assertEquals(Q`0.1 W`.convert("dBm").toString(), "20 dBm");
+        assertEquals(Q`20 dBm`.magnitude, 0.1); // in W
+        assertEquals(Q`2 mW`.convert("dBm").get().magnitude.toFixed(14), (10 * Math.log10(2)).toFixed(14));
+        // Values stay exactly as they were written, without any rounding error from the linear value:
+        for (const value of [`3 dB`, `1 dB`, `3 dBm`, `-3 dBm`, `94 dBSPL`, `7.2 pH_value`, `1e-13 dB`]) {
+            assertEquals(Q(value).toString(), value);
+        }
+        assertEquals(Q`3.0000000000001 dB`.toString(), "3.0000000000001 dB"); // Not rounded to 12 decimal places
+        assertThrows(
+            () => Q`0 mW`.convert("dBm").toString(),
+            QuantityError,
+            `Cannot express a value that is zero or negative in the logarithmic unit "dBm".`,
+        );
+    });
+    await t.step(`tolerances`, () => {
+        assertEquals(Q`20±1 dBm`.toString(), "20±1.0 dBm");
+        // In milliwatts, the tolerance is asymmetric:
+        const { plus, minus } = Q`20±1 dBm`.convert("mW").get();
+        assertEquals([plus?.toFixed(1), minus?.toFixed(1)], ["25.9", "20.6"]);
+        // A tolerance that includes zero can't be expressed in decibels:
+        assertThrows(
+            () => Q`1±2 mW`.convert("dBm").get(),
+            QuantityError,
+            `Cannot express a tolerance that includes zero or negative values in the logarithmic unit "dBm".`,
+        );
+    });
+    await t.step(`a gain can be added to a level`, () => {
+        assertEquals(Q`20 dBm`.add(Q`3 dB`).toString(), "23 dBm");
+        assertEquals(Q`3 dB`.add(Q`20 dBm`).toString(), "23 dBm");
+        assertEquals(Q`20 dBV`.sub(Q`6 dB`).toString(), "14 dBV");
+        assertEquals(Q`20±1 dBm`.add(Q`3±0.5 dB`).toString(), "23±1.5 dBm");
+        assertEquals(Q`10 dB`.add(Q`3 dB`).toString(), "13 dB");
+    });
+    await t.step(`the difference between two levels is a ratio`, () => {
+        assertEquals(Q`20 dBm`.sub(Q`17 dBm`).toString(), "3 dB");
+        assertEquals(Q`20 dBV`.sub(Q`14 dBV`).toString(), "6 dB");
+        assertThrows(() => Q`20 dBV`.sub(Q`14 dBm`), QuantityError, "Cannot add quanitites with different units.");
+        assertThrows(() => Q`3 dB`.sub(Q`20 dBm`), QuantityError, `Cannot subtract a level in "dBm" from a ratio`);
+    });
+    await t.step(`two levels can't be added, unless one is converted to a linear value`, () => {
+        assertThrows(
+            () => Q`20 dBm`.add(Q`20 dBm`),
+            QuantityError,
+            `Cannot add two quantities in the logarithmic unit "dBm", because that would multiply the values that they ` +
+                `represent. Convert one of them to "W" first to add the values.`,
+        );
+        assertEquals(Q`20 dBm`.add(Q`20 dBm`.convert("mW")).format({ significantDigits: 3 }), "23.0 dBm");
+        assertEquals(Q`100 mW`.add(Q`20 dBm`).toString(), "200 mW");
+    });
+    await t.step(`values can't be multiplied, or used in compound units`, () => {
+        assertThrows(
+            () => Q`20 dBm`.multiply(Q`2`),
+            QuantityError,
+            `Cannot multiply, divide, or raise to a power a quantity in the logarithmic unit "dBm". Convert it to "W" first.`,
+        );
+        assertThrows(() => Q`3 dB`.pow(2), QuantityError, `Convert it to a plain number first.`);
+        assertThrows(() => Q`3 dB/m`, QuantityError, `compound units that include the logarithmic unit "dB"`);
+        assertThrows(() => Q`3 dBm^2`, QuantityError, `compound units that include the logarithmic unit "dBm"`);
     });
 });
 
@@ -335,6 +474,146 @@ Deno.test("Multiplying quantities", async (t) => {
     });
 });
 
+Deno.test("Dividing quantities", async (t) => {
+    await t.step(`(15 m) / (3)`, () => {
+        const x = new Quantity(15, { units: "m" });
+        const y = new Quantity(3);
+        const z = x.divide(y);
+        assertEquals(z.magnitude, 5);
+        assertEquals(z.dimensions, ONE_LENGTH_DIMENSION); // m
+        assertEquals(z.toString(), "5 m");
+    });
+    await t.step(`(15 m^2) / (3 m)`, () => {
+        const x = new Quantity(15, { units: "m^2" });
+        const y = new Quantity(3, { units: "m" });
+        const z = x.divide(y);
+        assertEquals(z.magnitude, 5);
+        assertEquals(z.dimensions, ONE_LENGTH_DIMENSION);
+        assertEquals(z.toString(), "5 m");
+    });
+    await t.step(`(10 km) / (2 h) - combines units`, () => {
+        const x = new Quantity(10, { units: "km" });
+        const y = new Quantity(2, { units: "h" });
+        const z = x.divide(y);
+        assertEquals(z.toString(), "5 km/h");
+        assertEquals(z.convert("m/s").get(), { magnitude: 1.3888888888888888, units: "m/s" });
+    });
+    await t.step(`(6 m) / (2 m) is dimensionless`, () => {
+        const z = new Quantity(6, { units: "m" }).divide(new Quantity(2, { units: "m" }));
+        assert(z.isDimensionless);
+        assertEquals(z.toString(), "3");
+    });
+    await t.step(`(1) / (4 s)`, () => {
+        const z = new Quantity(1).divide(new Quantity(4, { units: "s" }));
+        assertEquals(z.magnitude, 0.25);
+        assertEquals(z.toString(), "0.25 s^-1");
+    });
+    await t.step(`(4 s).invert()`, () => {
+        const z = new Quantity(4, { units: "s" }).invert();
+        assertEquals(z.magnitude, 0.25);
+        assertEquals(z.toString(), "0.25 s^-1");
+        assertEquals(z.invert().toString(), "4 s");
+    });
+    await t.step(`cannot divide by zero`, () => {
+        assertThrows(
+            () => new Quantity(5, { units: "m" }).divide(new Quantity(0, { units: "s" })),
+            QuantityError,
+            "Cannot divide by zero.",
+        );
+    });
+});
+
+Deno.test("Powers and roots of quantities", async (t) => {
+    await t.step(`(3 m)^2`, () => {
+        const z = new Quantity(3, { units: "m" }).pow(2);
+        assertEquals(z.magnitude, 9);
+        assertEquals(z.dimensions, TWO_LENGTH_DIMENSIONS);
+        assertEquals(z.toString(), "9 m^2");
+    });
+    await t.step(`(2 m/s)^3`, () => {
+        assertEquals(new Quantity(2, { units: "m/s" }).pow(3).toString(), "8 m^3/s^3");
+    });
+    await t.step(`(4 s)^-1`, () => {
+        assertEquals(new Quantity(4, { units: "s" }).pow(-1).toString(), "0.25 s^-1");
+    });
+    await t.step(`(50 %)^2`, () => {
+        assertEquals(new Quantity(50, { units: "%" }).pow(2).toString(), "25 %");
+    });
+    await t.step(`(9 m^2)^0.5`, () => {
+        assertEquals(new Quantity(9, { units: "m^2" }).pow(0.5).toString(), "3 m");
+    });
+    await t.step(`sqrt(9 m^2)`, () => {
+        const z = new Quantity(9, { units: "m^2" }).sqrt();
+        assertEquals(z.magnitude, 3);
+        assertEquals(z.dimensions, ONE_LENGTH_DIMENSION);
+        assertEquals(z.toString(), "3 m");
+    });
+    await t.step(`sqrt(4 ha) - uses SI units when the original units can't be used`, () => {
+        assertEquals(new Quantity(4, { units: "ha" }).sqrt().toString(), "200 m");
+    });
+    await t.step(`root(27 m^3, 3)`, () => {
+        assertEquals(new Quantity(27, { units: "m^3" }).root(3).toString(), "3 m");
+        assertEquals(new Quantity(-27, { units: "m^3" }).root(3).toString(), "-3 m");
+    });
+    await t.step(`sqrt(4 m) is not allowed`, () => {
+        assertThrows(
+            () => new Quantity(4, { units: "m" }).sqrt(),
+            QuantityError,
+            "because the result would have fractional dimensions",
+        );
+    });
+    await t.step(`sqrt(-4 m^2) is not allowed`, () => {
+        assertThrows(
+            () => new Quantity(-4, { units: "m^2" }).sqrt(),
+            QuantityError,
+            "Cannot take an even root of a negative quantity.",
+        );
+    });
+});
+
+Deno.test("Choosing the best prefix", async (t) => {
+    const check = (magnitude: number, units: string, expected: string, options?: { binary?: boolean }) =>
+        t.step(`${magnitude} ${units} -> ${expected}`, () => {
+            assertEquals(new Quantity(magnitude, { units }).toBestPrefix(options).toString(), expected);
+        });
+
+    await check(0.000012, "m", "12 µm");
+    await check(3400, "MHz", "3.4 GHz");
+    await check(1000, "m", "1 km");
+    await check(999.9, "m", "999.9 m");
+    await check(0.5, "kg", "500 g");
+    await check(-0.0025, "A", "-2.5 mA");
+    await check(12, "cm", "120 mm"); // centi-, deci-, and hecto- are never used
+    await check(2_000_000, "m^2", "2 km^2");
+    await check(1e40, "m", "10000000000 Qm"); // Can't go any bigger than quetta-
+    await check(1e-40, "m", "1e-10 qm"); // Can't go any smaller than quecto-
+    await check(0.5, "mm", "500 µm"); // Not "500.00000000000006 µm"
+    await check(0.003, "ms", "3 µs");
+    await check(4.7, "nF", "4.7 nF");
+    await check(1_572_864, "B", "1.572864 MB", { binary: false });
+    await check(1_572_864, "B", "1.5 MiB", { binary: true });
+    await check(1536, "KiB", "1.5 MiB"); // Already using a binary prefix
+    await check(1536, "kB", "1.536 MB");
+    await check(0.5, "KiB", "512 B");
+    // These are unchanged:
+    await check(5000, "ft", "5000 ft"); // not prefixable
+    await check(5000, "degC", "5000 degC"); // offset unit
+    await check(5000, "km/h", "5000 km/h"); // compound unit
+    await check(0, "km", "0 km");
+
+    await t.step("uses SI units if no units were specified", () => {
+        const x = new Quantity(0.003, { dimensions: FORCE_DIMENSIONS });
+        assertEquals(x.toBestPrefix().toString(), "3 mN");
+    });
+
+    await t.step("preserves uncertainty", () => {
+        const x = new Quantity(0.0012, { units: "m", plusMinus: 0.0001 }).toBestPrefix();
+        assertEquals(x.get(), { magnitude: 1.2, plusMinus: 0.1, units: "mm" });
+        const y = new Quantity(0.5, { units: "mm", plusMinus: 0.03 }).toBestPrefix();
+        assertEquals(y.get(), { magnitude: 500, plusMinus: 30, units: "µm" });
+    });
+});
+
 Deno.test("Uncertainty/tolerance", async (t) => {
     await t.step(`a number can have an uncertainty/tolerance value specified`, () => {
         const x = new Quantity(5, { units: "m", plusMinus: 0.02 });
@@ -419,6 +698,46 @@ Deno.test("Uncertainty/tolerance", async (t) => {
         assertGreaterOrEqual(zMinError.magnitude, z.magnitude - z.plusMinus!);
     });
 
+    await t.step(`when dividing two quantities, the resulting error is computed.`, () => {
+        // x = (9.0 ± 0.5) m, y = (2.0 ± 0.2) s.
+        const x = new Quantity(9.0, { units: "m", plusMinus: 0.5 });
+        const y = new Quantity(2.0, { units: "s", plusMinus: 0.2 });
+        const z = x.divide(y);
+        assertEquals(z.magnitude, 4.5);
+        // The maximum possible value is (9.5 m)/(1.8 s) = 5.2777... m/s
+        assertEquals(z.magnitude + z.plusMinus!, 9.5 / 1.8);
+        assertEquals(z.toString(), "4.5±0.8 m/s");
+    });
+
+    await t.step(`cannot divide by a quantity whose uncertainty range includes zero.`, () => {
+        assertThrows(
+            () => new Quantity(1, { units: "m" }).divide(new Quantity(0.1, { units: "s", plusMinus: 0.2 })),
+            QuantityError,
+            "Cannot divide by a quantity whose uncertainty/tolerance range includes zero.",
+        );
+    });
+
+    await t.step(`when raising a quantity to a power, the resulting error is computed.`, () => {
+        // x = (3.0 ± 0.1) m, so x² is between 2.9² = 8.41 m² and 3.1² = 9.61 m²
+        const x = new Quantity(3.0, { units: "m", plusMinus: 0.1 });
+        const z = x.pow(2);
+        assertEquals(z.magnitude, 9);
+        // The error is an absolute error, not a relative one:
+        assertEquals(z.plusMinus, 3.1 * 3.1 - 9);
+        assertEquals(z.toString(), "9±0.6 m^2");
+        // This is the same result that we get from multiplying x by itself:
+        assertEquals(x.multiply(x).plusMinus, z.plusMinus);
+    });
+
+    await t.step(`when taking the square root of a quantity, the resulting error is computed.`, () => {
+        // x = (9 ± 2) m², so √x is between √7 = 2.65 m and √11 = 3.32 m
+        const x = new Quantity(9, { units: "m^2", plusMinus: 2 });
+        const z = x.sqrt();
+        assertEquals(z.magnitude, 3);
+        assertEquals(z.plusMinus, 3 - Math.sqrt(7));
+        assertEquals(z.toString(), "3±0.4 m");
+    });
+
     for (
         const [x, y] of [
             [
@@ -454,3 +773,465 @@ Deno.test("Uncertainty/tolerance", async (t) => {
         });
     }
 });
+
+Deno.test("Gaussian uncertainty propagation", async (t) => {
+    const gaussian = (magnitude: number, units: string, plusMinus: number) =>
+        new Quantity(magnitude, { units, plusMinus, uncertaintyModel: "gaussian" });
+
+    await t.step(`the default model is worst-case`, () => {
+        const x = new Quantity(5, { units: "m", plusMinus: 0.02 });
+        assertEquals(x.uncertaintyModel, "worst-case");
+        assertEquals(x.get(), { magnitude: 5, plusMinus: 0.02, units: "m" });
+    });
+
+    await t.step(`the model is included when serializing`, () => {
+        assertEquals(gaussian(5, "m", 0.02).get(), {
+            magnitude: 5,
+            plusMinus: 0.02,
+            uncertaintyModel: "gaussian",
+            units: "m",
+        });
+        // But not if there is no uncertainty:
+        assertEquals(gaussian(5, "m", 0).get(), { magnitude: 5, units: "m" });
+    });
+
+    await t.step(`when adding two quantities, the errors are added in quadrature.`, () => {
+        const z = gaussian(3, "m", 0.3).add(gaussian(4, "m", 0.4));
+        assertEquals(z.plusMinus, 0.5);
+        assertEquals(z.uncertaintyModel, "gaussian");
+        assertAlmostEquals(z.sub(gaussian(2, "m", 1.2)).plusMinus!, 1.3);
+    });
+
+    await t.step(`when multiplying two quantities, the relative errors are added in quadrature.`, () => {
+        // 3% and 4% relative errors give a 5% relative error:
+        const z = gaussian(10, "m", 0.3).multiply(gaussian(20, "s", 0.8));
+        assertEquals(z.magnitude, 200);
+        assertAlmostEquals(z.plusMinus!, 10);
+        // Multiplying by an exact value scales the error:
+        assertEquals(gaussian(10, "m", 0.3).multiply(new Quantity(-2)).plusMinus, 0.6);
+        // It works if one of the values is zero:
+        assertEquals(gaussian(0, "m", 0.3).multiply(gaussian(20, "s", 0.8)).plusMinus, 6);
+    });
+
+    await t.step(`when dividing two quantities, the relative errors are added in quadrature.`, () => {
+        const z = gaussian(30, "m", 0.9).divide(gaussian(2, "s", 0.08));
+        assertEquals(z.magnitude, 15);
+        assertAlmostEquals(z.plusMinus!, 0.75);
+        // A range that includes zero is allowed, since a standard deviation is not a bound:
+        assertAlmostEquals(new Quantity(1).divide(gaussian(0.1, "s", 0.2)).plusMinus!, 20);
+    });
+
+    await t.step(`powers and roots use the derivative.`, () => {
+        assertAlmostEquals(gaussian(3, "m", 0.1).pow(2).plusMinus!, 0.6);
+        assertAlmostEquals(gaussian(2, "s", 0.1).pow(-1).plusMinus!, 0.025);
+        assertAlmostEquals(gaussian(9, "m^2", 2).sqrt().plusMinus!, 1 / 3);
+        assertAlmostEquals(gaussian(-8, "m^3", 1.2).root(3).plusMinus!, 0.1);
+        // Where the derivative is infinite, the worst-case error is used:
+        assertEquals(gaussian(0, "m^2", 4).sqrt().plusMinus, 2);
+    });
+
+    await t.step(`the model can be changed per Quantity`, () => {
+        const x = new Quantity(3, { units: "m", plusMinus: 0.3 }).withUncertaintyModel("gaussian");
+        assertEquals(x.uncertaintyModel, "gaussian");
+        assertEquals(x.add(gaussian(4, "m", 0.4)).toString(), "7±0.5 m");
+        assertFalse(x.equals(new Quantity(3, { units: "m", plusMinus: 0.3 })));
+    });
+
+    await t.step(`the default model can be changed per registry`, () => {
+        const registry = new UnitRegistry({}, { uncertaintyModel: "gaussian" });
+        assertEquals(registry.quantity(3, { units: "m", plusMinus: 0.3 }).uncertaintyModel, "gaussian");
+        assertEquals(registry.Q`3±0.3 m`.add(registry.Q`4±0.4 m`).toString(), "7±0.5 m");
+        assertEquals(
+            registry.quantity(3, { plusMinus: 0.3, uncertaintyModel: "worst-case" }).uncertaintyModel,
+            "worst-case",
+        );
+        assertEquals(new Quantity(3, { units: "m", plusMinus: 0.3 }).uncertaintyModel, "worst-case");
+        assertThrows(
+            () => new UnitRegistry({}, { uncertaintyModel: "foo" as "gaussian" }),
+            QuantityError,
+            `Invalid uncertainty model "foo"`,
+        );
+    });
+
+    await t.step(`cannot combine quantities that use different models`, () => {
+        const worstCase = new Quantity(4, { units: "m", plusMinus: 0.4 });
+        assertThrows(
+            () => gaussian(3, "m", 0.3).add(worstCase),
+            QuantityError,
+            "Cannot combine quantities that use different uncertainty models.",
+        );
+        assertThrows(() => worstCase.multiply(gaussian(3, "m", 0.3)), QuantityError);
+        // But a value without any uncertainty can be combined with either:
+        assertEquals(new Quantity(1, { units: "m" }).add(gaussian(3, "m", 0.3)).uncertaintyModel, "gaussian");
+        assertEquals(worstCase.multiply(new Quantity(2)).uncertaintyModel, "worst-case");
+    });
+
+    await t.step(`invalid models are rejected`, () => {
+        assertThrows(
+            // deno-lint-ignore no-explicit-any
+            () => new Quantity(3, { uncertaintyModel: "normal" as any }),
+            QuantityError,
+            `Invalid uncertainty model "normal"`,
+        );
+    });
+});
+
+Deno.test("Asymmetric tolerances", async (t) => {
+    const x = new Quantity(10, { units: "mm", plus: 0.2, minus: 0.1 });
+
+    await t.step(`a number can have separate upper and lower tolerances`, () => {
+        assertEquals(x.plus, 0.0002);
+        assertEquals(x.minus, 0.0001);
+        // plusMinus is the larger of the two:
+        assertEquals(x.plusMinus, 0.0002);
+        assertEquals(x.get(), { magnitude: 10, plus: 0.2, minus: 0.1, units: "mm" });
+        assertEquals(x.toString(), "10 +0.2 -0.10 mm");
+        assertFalse(x.equals(new Quantity(10, { units: "mm", plusMinus: 0.2 })));
+    });
+
+    await t.step(`equal upper and lower tolerances are the same as plusMinus`, () => {
+        const y = new Quantity(10, { units: "mm", plus: 0.2, minus: 0.2 });
+        assertEquals(y.get(), { magnitude: 10, plusMinus: 0.2, units: "mm" });
+        assert(y.equals(new Quantity(10, { units: "mm", plusMinus: 0.2 })));
+        // And plus/minus work for symmetric values too:
+        assertEquals(y.plus, 0.0002);
+        assertEquals(y.minus, 0.0002);
+    });
+
+    await t.step(`invalid tolerances are rejected`, () => {
+        assertThrows(() => new Quantity(10, { plus: 0.2 }), QuantityError, "needs both a plus and a minus value");
+        assertThrows(() => new Quantity(10, { plus: 0.2, minus: -0.1 }), QuantityError, "Invalid plus/minus value");
+        assertThrows(() => new Quantity(10, { plus: 0.2, minus: 0.1, plusMinus: 0.1 }), QuantityError, "not both");
+        assertThrows(
+            () => new Quantity(10, { plus: 0.2, minus: 0.1, uncertaintyModel: "gaussian" }),
+            QuantityError,
+            "Asymmetric tolerances can only be used with the worst-case uncertainty model.",
+        );
+        assertThrows(() => x.withUncertaintyModel("gaussian"), QuantityError);
+    });
+
+    await t.step(`addition and subtraction`, () => {
+        const y = new Quantity(2, { units: "mm", plus: 0.05, minus: 0.03 });
+        assertEquals(x.add(y).get(), { magnitude: 12, plus: 0.25, minus: 0.13, units: "mm" });
+        // Subtracting y swaps its upper and lower tolerance:
+        const difference = x.sub(y).get();
+        assertEquals(difference.magnitude, 8);
+        assertAlmostEquals(difference.plus!, 0.23);
+        assertAlmostEquals(difference.minus!, 0.15);
+        // Combined with a symmetric tolerance:
+        const z = x.add(new Quantity(1, { units: "mm", plusMinus: 0.1 }));
+        assertAlmostEquals(z.get().plus!, 0.3);
+        assertAlmostEquals(z.get().minus!, 0.2);
+    });
+
+    await t.step(`multiplication and division`, () => {
+        // Multiplying by a negative number swaps the tolerances:
+        assertEquals(x.multiply(new Quantity(-2)).get(), { magnitude: -20, plus: 0.2, minus: 0.4, units: "mm" });
+        // The product of two ranges: [9.9, 10.2] mm * [2.9, 3.1] mm = [28.71, 31.62] mm²
+        const product = x.multiply(new Quantity(3, { units: "mm", plusMinus: 0.1 })).get();
+        assertAlmostEquals(product.magnitude, 30);
+        assertAlmostEquals(product.plus!, 1.62);
+        assertAlmostEquals(product.minus!, 1.29);
+        // 1 / [9.9, 10.2] mm = [0.098039, 0.101010] mm^-1
+        const inverse = x.invert().get();
+        assertAlmostEquals(inverse.plus!, 1 / 9.9 - 0.1);
+        assertAlmostEquals(inverse.minus!, 0.1 - 1 / 10.2);
+        assertThrows(
+            () => new Quantity(1).divide(new Quantity(1, { plus: 0.5, minus: 1 })),
+            QuantityError,
+            "Cannot divide by a quantity whose uncertainty/tolerance range includes zero.",
+        );
+    });
+
+    await t.step(`powers and roots`, () => {
+        // [9.9, 10.2]² = [98.01, 104.04]
+        const square = x.pow(2).get();
+        assertAlmostEquals(square.plus!, 4.04);
+        assertAlmostEquals(square.minus!, 1.99);
+        // A range that includes zero: [-1, 3]² = [0, 9]
+        const y = new Quantity(1, { plus: 2, minus: 2.5 }).pow(2);
+        assertEquals([y.plus, y.minus], [8, 1]);
+        // The square root of a range that goes below zero is limited to zero: √[0, 4] = [0, 2]
+        const z = new Quantity(1, { plus: 3, minus: 2 }).sqrt();
+        assertEquals([z.plus, z.minus], [1, 1]);
+    });
+
+    await t.step(`conversions`, () => {
+        assertEquals(x.convert("cm").get(), { magnitude: 1, plus: 0.02, minus: 0.01, units: "cm" });
+    });
+});
+
+Deno.test("Significant figures", async (t) => {
+    const sf = (magnitude: number, units: string, significantFigures: number) =>
+        new Quantity(magnitude, { units, significantFigures });
+
+    await t.step(`toString() uses the significant figures`, () => {
+        assertEquals(sf(2, "m", 3).toString(), "2.00 m");
+        assertEquals(sf(1234.5, "m", 2).toString(), "1200 m"); // Not "1.2e+3 m"
+        assertEquals(sf(1200, "m", 2).toString(), "1200 m");
+        assertEquals(sf(0.000012345, "m", 3).toString(), "0.0000123 m");
+        assertEquals(sf(1.2345e25, "m", 3).toString(), "1.23e+25 m"); // Large numbers are still exponential
+        assertEquals(sf(4.56, "m", 3).get(), { magnitude: 4.56, significantFigures: 3, units: "m" });
+    });
+
+    for (const invalid of [0, 1.5, 101]) {
+        await t.step(`a Quantity will not accept ${invalid} significant figures`, () => {
+            assertThrows(() => sf(5, "m", invalid), QuantityError, "Invalid significantFigures value");
+        });
+    }
+
+    await t.step(`adding uses the decimal place of the least precise value`, () => {
+        // 12.11 + 18.0 + 1.013 = 31.123, but 18.0 is only precise to the first decimal place:
+        assertEquals(sf(12.11, "m", 4).add(sf(18.0, "m", 3)).add(sf(1.013, "m", 4)).toString(), "31.1 m");
+        // This works across different units too: 1.20 km is only precise to the nearest 10 m
+        assertEquals(sf(1.20, "km", 3).add(sf(5, "m", 1)).toString(), "1.21 km");
+        // The result can have more significant figures than either value:
+        assertEquals(sf(9.96, "m", 3).add(sf(0.05, "m", 1)).toString(), "10.01 m");
+        // Subtracting can lose significant figures:
+        assertEquals(sf(10.23, "m", 4).sub(sf(10.1, "m", 3)).toString(), "0.1 m");
+    });
+
+    await t.step(`exact numbers don't limit the precision`, () => {
+        assertEquals(sf(1.2, "m", 2).add(new Quantity(0.333, { units: "m" })).toString(), "1.5 m");
+        assertEquals(sf(4.56, "m", 3).multiply(new Quantity(2)).toString(), "9.12 m");
+        // Unit conversion factors are exact:
+        assertEquals(sf(4.56, "m", 3).convert("ft").toString(), "15.0 ft");
+        assertEquals(new Quantity(12.0, { units: "in", significantFigures: 3 }).significantFigures, 3);
+    });
+
+    await t.step(`multiplying and dividing uses the fewest significant figures`, () => {
+        assertEquals(sf(4.56, "m", 3).multiply(sf(1.4, "s", 2)).toString(), "6.4 m⋅s");
+        assertEquals(sf(4.56, "m", 3).divide(sf(2.0, "s", 2)).toString(), "2.3 m/s");
+        assertEquals(sf(4.00, "m^2", 3).sqrt().toString(), "2.00 m");
+        assertEquals(sf(4.0, "s", 2).invert().toString(), "0.25 s^-1");
+    });
+});
+
+Deno.test("Statistical aggregates", async (t) => {
+    const lengths = [Q`1 m`, Q`20 cm`, Q`3 ft`];
+
+    await t.step(`sum and mean`, () => {
+        assertEquals(Quantity.sum([Q`1 m`, Q`20 cm`, Q`5 cm`]).toString(), "1.25 m");
+        assertEquals(Quantity.sum([Q`50 cm`, Q`1 m`]).toString(), "150 cm"); // Uses the units of the first value
+        assertEquals(Quantity.mean([Q`1±0.1 m`, Q`2±0.3 m`]).get(), { magnitude: 1.5, units: "m", plusMinus: 0.2 });
+        assertEquals(Quantity.mean([Q`5 kg`]).toString(), "5 kg");
+    });
+
+    await t.step(`min, max, and range`, () => {
+        assertEquals(Quantity.min(lengths).toString(), "0.2 m");
+        assertEquals(Quantity.max(lengths).toString(), "1 m");
+        assertEquals(Quantity.max([Q`20 cm`, Q`3±0.1 ft`]).toString(), "91±3 cm");
+        assertEquals(Quantity.range(lengths).toString(), "0.8 m");
+    });
+
+    await t.step(`median`, () => {
+        assertEquals(Quantity.median([Q`3 m`, Q`1 m`, Q`20 m`]).toString(), "3 m");
+        assertEquals(Quantity.median([Q`3 m`, Q`1 m`, Q`20 m`, Q`4 m`]).toString(), "3.5 m");
+        assertEquals(Quantity.median([Q`2 km`, Q`3000 m`, Q`1 km`]).toString(), "2 km");
+    });
+
+    await t.step(`stddev`, () => {
+        const values = [2, 4, 4, 4, 5, 5, 7, 9].map((v) => new Quantity(v, { units: "s", plusMinus: 0.5 }));
+        const population = Quantity.stddev(values, { population: true });
+        assertEquals(population.get(), { magnitude: 2, units: "s" }); // the plusMinus of each value is not included
+        assertAlmostEquals(Quantity.stddev(values).magnitude, 2.138089935299395);
+        assertEquals(Quantity.stddev([Q`1 s`], { population: true }).toString(), "0 s");
+        assertThrows(() => Quantity.stddev([Q`1 s`]), QuantityError, "fewer than two quantities");
+    });
+
+    await t.step(`invalid input`, () => {
+        for (const fn of [Quantity.sum, Quantity.mean, Quantity.min, Quantity.max, Quantity.median, Quantity.range]) {
+            assertThrows(() => fn([]), QuantityError, "of an empty list of quantities.");
+            assertThrows(() => fn([Q`1 m`, Q`1 s`]), QuantityError, "of quantities with different dimensions.");
+        }
+        assertThrows(
+            () => Quantity.stddev([]),
+            QuantityError,
+            "Cannot compute the standard deviation of an empty list",
+        );
+    });
+});
+
+Deno.test("Trigonometric functions", async (t) => {
+    await t.step(`sin, cos, and tan of angles`, () => {
+        assertEquals(Q`90 deg`.sin().get(), { magnitude: 1, units: "" });
+        assertEquals(Q`0.5 rev`.cos().get(), { magnitude: -1, units: "" });
+        assertAlmostEquals(Q`30 deg`.sin().magnitude, 0.5);
+        assertAlmostEquals(Q`45 deg`.tan().magnitude, 1);
+        assertAlmostEquals(Q`1800 arcmin`.cos().magnitude, Math.sqrt(3) / 2);
+        // Dimensionless numbers are treated as radians:
+        assertEquals(new Quantity(2).sin().magnitude, Math.sin(2));
+        assertEquals(Q`0.5`.sin().magnitude, Math.sin(0.5));
+        assertEquals(Q`2 m/km`.sin().magnitude, Math.sin(0.002));
+    });
+
+    await t.step(`inverse functions return angles`, () => {
+        assertEquals(Q`1`.asin().convert("deg").toString(), "90 deg");
+        assertEquals(Q`-1`.acos().convert("deg").toString(), "180 deg");
+        assertEquals(Q`0.5`.asin().toString(), `${Math.asin(0.5)} rad`);
+        assertEquals(Quantity.atan2(Q`1 m`, Q`-100 cm`).convert("deg").toString(), "135 deg");
+        assertEquals(Quantity.atan2(Q`-3 ft`, Q`0 ft`).get(), { magnitude: -Math.PI / 2, units: "rad" });
+    });
+
+    await t.step(`rotational math`, () => {
+        const angularVelocity = Q`3000 rpm`;
+        assertAlmostEquals(angularVelocity.convert("rad/s").magnitude, 314.159265359);
+        assertEquals(angularVelocity.multiply(Q`2 s`).convert("rev").toString(), "100 rev");
+        // 1 Hz is 2π rad/s, so converting between angular velocity and Hz isn't allowed:
+        assertThrows(() => angularVelocity.convert("Hz"), InvalidConversionError);
+        assertThrows(() => Q`50 Hz`.convert("rpm"), InvalidConversionError);
+        assertThrows(() => Q`50 Hz`.convert("rad/s"), InvalidConversionError);
+        assertThrows(() => Q`1 rad/s`.convert("kHz"), InvalidConversionError);
+        assertThrows(() => Q`90 deg/s`.withKind("angular velocity").convertToBasis(["Hz"]), InvalidConversionError);
+        assertEquals(Q`50 Hz`.convert("s^-1").toString(), "50 s^-1");
+        // Arc length = radius × angle:
+        assertAlmostEquals(Q`2 m`.multiply(Q`90 deg`).convert("m").magnitude, Math.PI);
+    });
+
+    await t.step(`uncertainty/tolerance`, () => {
+        // Near a turning point, the worst case is at the ends of the range:
+        assertEquals(Q`90±1 deg`.sin().toString(), "1±0.00015");
+        // Otherwise, it depends on the slope:
+        assertEquals(Q`30±1 deg`.sin().format({ significantDigits: 3 }), "0.500±0.015");
+        assertEquals(Q`30 +1 -2 deg`.sin().format({ significantDigits: 3 }), "0.500 +0.015 -0.03");
+        assertAlmostEquals(
+            Q`30±1 deg`.withUncertaintyModel("gaussian").sin().plusMinus!,
+            Math.PI / 180 * Math.cos(Math.PI / 6),
+        );
+        assertEquals(Q`0±0.1`.asin().plusMinus, Math.asin(0.1));
+        // atan2 doesn't wrap around at ±π:
+        assertEquals(Quantity.atan2(Q`0±0.1 m`, Q`-1 m`).convert("deg").toString(), "180±6 deg");
+        assertAlmostEquals(Quantity.atan2(Q`0±0.1 m`, Q`-1 m`).plusMinus!, Math.atan(0.1));
+        // Exact values give an exact angle, whatever the uncertainty model:
+        const gaussian = (q: Quantity) => q.withUncertaintyModel("gaussian");
+        assertEquals(Quantity.atan2(gaussian(Q`1 m`), gaussian(Q`1 m`)).plusMinus, undefined);
+        assertEquals(Quantity.atan2(gaussian(Q`1 m`), gaussian(Q`1 m`)).get(), {
+            magnitude: Math.PI / 4,
+            units: "rad",
+        });
+        assertEquals(Quantity.atan2(Q`1 m`, Q`1 m`).plusMinus, undefined);
+    });
+
+    await t.step(`invalid input`, () => {
+        assertThrows(
+            () => Q`1 m`.sin(),
+            QuantityError,
+            "sin() can only be used with an angle or a plain number.",
+        );
+        assertThrows(() => Q`1 deg/s`.cos(), QuantityError, "cos() can only be used with an angle");
+        // Other dimensionless units aren't angles:
+        assertThrows(() => Q`50 %`.sin(), QuantityError, "sin() can only be used with an angle or a plain number.");
+        assertThrows(() => Q`3 dB`.cos(), QuantityError, "cos() can only be used with an angle or a plain number.");
+        assertThrows(() => Q`1 sr`.tan(), QuantityError, "tan() can only be used with an angle or a plain number.");
+        assertThrows(() => Q`90±1 deg`.tan(), QuantityError, "range includes 90°");
+        assertThrows(() => Q`1.5`.asin(), QuantityError, "asin() is only defined for values from -1 to 1.");
+        assertThrows(() => Q`1 m`.acos(), QuantityError, "acos() can only be used with a dimensionless quantity.");
+        assertThrows(() => Quantity.atan2(Q`1 m`, Q`1 s`), QuantityError, "same dimensions");
+        assertThrows(() => Quantity.atan2(Q`0±1 m`, Q`0.5±1 m`), QuantityError, "includes the point (0, 0)");
+    });
+});
+
+Deno.test("Kinds of quantities", async (t) => {
+    await t.step(`the kind comes from the units`, () => {
+        assertEquals(Q`5 kBq`.kind, "activity");
+        assertEquals(Q`2 mCi`.kind, "activity");
+        assertEquals(Q`3 mGy`.kind, "absorbed dose");
+        assertEquals(Q`3 Sv`.kind, "equivalent dose");
+        assertEquals(Q`5 kHz`.kind, undefined);
+        assertEquals(Q`5 Bq/kg`.kind, undefined);
+        assertEquals(new Quantity(5, { units: "s^-1", kind: "activity" }).kind, "activity");
+    });
+
+    await t.step(`units for other kinds of quantities aren't used for output`, () => {
+        assertEquals(Q`5 kHz`.toSI().toString(), "5000 s^-1");
+        assertEquals(Q`5 kBq`.toSI().toString(), "5000 Bq");
+        assertEquals(new Quantity(5, { dimensions: Q`1 Gy`.dimensions }).toString(), "5 J/kg");
+        assertEquals(new Quantity(5, { dimensions: Q`1 Gy`.dimensions, kind: "absorbed dose" }).toString(), "5 Gy");
+    });
+
+    await t.step(`the kind is kept when it makes sense`, () => {
+        assertEquals(Q`5 kBq`.convert("Hz").kind, "activity");
+        assertEquals(Q`5 kBq`.multiply(new Quantity(2)).kind, "activity");
+        assertEquals(Q`5 kBq`.divide(new Quantity(2)).kind, "activity");
+        assertEquals(Q`5 kBq`.add(Q`5 s^-1`).kind, "activity");
+        assertEquals(Q`5 s^-1`.add(Q`5 kBq`).toSI().toString(), "5005 Bq");
+        assertEquals(Q`2 mSv`.sub(Q`1 mSv`).kind, "equivalent dose");
+        assertEquals(Quantity.mean([Q`1 mSv`, Q`3 mSv`]).kind, "equivalent dose");
+        // Multiplying by a rate:
+        const dose = Q`2 mSv/h`.multiply(Q`3 h`);
+        assertEquals(dose.kind, "equivalent dose");
+        assertEquals(dose.toSI().toString(), "0.005999999999999999 Sv");
+    });
+
+    await t.step(`the kind is lost when it doesn't make sense`, () => {
+        assertEquals(Q`5 Bq`.multiply(Q`2 s`).kind, undefined);
+        assertEquals(Q`5 Bq`.invert().kind, undefined);
+        assertEquals(Q`5 Bq`.pow(2).kind, undefined);
+    });
+
+    await t.step(`setting the kind explicitly`, () => {
+        const torque = Q`5 N`.multiply(Q`2 m`).withKind("torque");
+        assertEquals(torque.kind, "torque");
+        assertEquals(torque.withKind(undefined).kind, undefined);
+        assertEquals(new Quantity(5, { units: "kg⋅m^2/s^2", kind: "torque" }).kind, "torque");
+        assertEquals(Q`5 kg`.withKind("_cargo").kind, "_cargo"); // Any kind can be used
+        assertThrows(
+            () => Q`5 m`.withKind("torque"),
+            QuantityError,
+            `A quantity of kind "torque" must have the same dimensions as "N⋅m".`,
+        );
+    });
+
+    await t.step(`some kinds have their own SI units`, () => {
+        const torque = new Quantity(5, { units: "kg⋅m^2/s^2", kind: "torque" });
+        assertEquals(torque.toSI().toString(), "5 N⋅m");
+        assertEquals(Q`5 kg⋅m^2/s^2`.toSI().toString(), "5 J");
+        assertEquals(Q`5 kg⋅m^2/s^2`.withKind("energy").toSI().toString(), "5 J");
+        assertEquals(Q`50 Hz`.withKind("frequency").toSI().toString(), "50 Hz");
+        assertEquals(Q`90 deg/s`.withKind("angular velocity").toSI().toString(), `${Math.PI / 2} rad/s`);
+        assertEquals(Q`800 lm`.toSI().toString(), "800 lm");
+        assertEquals(Q`800 cd`.toSI().toString(), "800 cd");
+    });
+
+    await t.step(`the kind is serialized if it's not implied by the units`, () => {
+        const torque = Q`5 N⋅m`.withKind("torque");
+        assertEquals(torque.get(), { magnitude: 5, units: "N⋅m", kind: "torque" });
+        assertEquals(Q`5 kBq`.get(), { magnitude: 5, units: "kBq" });
+        assertEquals(Q`5 kBq`.convert("Hz").get(), { magnitude: 5000, units: "Hz", kind: "activity" });
+        assert(new Quantity(5, torque.get()).equals(torque));
+        assertFalse(Q`5 N⋅m`.equals(torque));
+    });
+
+    await t.step(`kinds that have their own units can't be added together`, () => {
+        assertThrows(
+            () => Q`1 Gy`.add(Q`1 Sv`),
+            QuantityError,
+            `Cannot add quantities of different kinds ("absorbed dose" and "equivalent dose").`,
+        );
+        assertThrows(() => Q`2 mSv`.sub(Q`1 mGy`), QuantityError, "different kinds");
+        assertThrows(() => Q`5 kBq`.add(Q`5 Hz`), QuantityError, `("activity" and "frequency")`);
+        assertThrows(() => Q`5 kHz`.add(Q`5 kBq`), QuantityError, `("frequency" and "activity")`);
+        const torque = Q`5 N⋅m`.withKind("torque");
+        assertThrows(() => torque.add(Q`5 J`.withKind("energy")), QuantityError, "different kinds");
+        assertThrows(() => torque.add(Q`5 J`), QuantityError, `("torque" and "energy")`);
+        assertEquals(torque.add(Q`5 N⋅m`).kind, "torque");
+        assertEquals(torque.add(Q`5 kg⋅m^2/s^2`).kind, "torque");
+        assertEquals(Q`5 J`.add(Q`5 N⋅m`).kind, undefined); // Neither one has a kind
+    });
+
+    await t.step(`adding different kinds can be forbidden`, () => {
+        const cargo = Q`5 kg`.withKind("_cargo");
+        const fuel = Q`5 kg`.withKind("_fuel");
+        assertEquals(cargo.add(fuel).kind, undefined);
+        const registry = new UnitRegistry({}, { strictKinds: true });
+        const strictCargo = registry.Q`5 kg`.withKind("_cargo");
+        assertThrows(
+            () => strictCargo.add(fuel),
+            QuantityError,
+            `Cannot add quantities of different kinds ("_cargo" and "_fuel").`,
+        );
+        assertThrows(() => fuel.sub(strictCargo), QuantityError, "different kinds");
+        assertEquals(strictCargo.add(registry.Q`5 kg`).kind, "_cargo"); // Values without a kind can still be added
+        assertEquals(strictCargo.add(cargo).kind, "_cargo");
+    });
+});
@@ -0,0 +1,174 @@
+import { assert, assertEquals, assertStrictEquals, assertThrows } from "@std/assert";
+import {
+    Dimensions,
+    InvalidConversionError,
+    type PreferredUnit,
+    Q,
+    Quantity,
+    QuantityError,
+    toUnitString,
+    UnitRegistry,
+} from "../mod.ts";
+
+const MASS_DIMENSION = new Dimensions([1, 0, 0, 0, 0, 0, 0, 0]);
+
+Deno.test("UnitRegistry", async (t) => {
+    const registry = new UnitRegistry({
+        /** US short ton */
+        ton_short: { s: 907.18474, d: MASS_DIMENSION },
+        /** Passenger-kilometers */
+        pax_km: { s: 1000, d: new Dimensions([0, 1, 0, 0, 0, 0, 0, 0, 1], ["pax"]) },
+        /** A custom prefixable unit */
+        blip: { s: 2, d: MASS_DIMENSION, prefixable: true },
+    });
+
+    await t.step("creating quantities with custom units", () => {
+        const x = registry.quantity(3, { units: "ton_short" });
+        assertEquals(x.magnitude, 3 * 907.18474);
+        assertEquals(x.dimensions, MASS_DIMENSION);
+        assertEquals(x.toString(), "3 ton_short");
+        assert(x.equals(registry.Q`3 ton_short`));
+        assert(x.equals(new Quantity(3, { units: "ton_short", registry })));
+    });
+
+    await t.step("custom units can't be used without the registry", () => {
+        assertThrows(
+            () => new Quantity(3, { units: "ton_short" }),
+            QuantityError,
+            `Unable to parse the unit "ton_short"`,
+        );
+        assertThrows(() => Q`3 ton_short`, QuantityError, `Unable to parse the unit "ton_short"`);
+    });
+
+    await t.step("built-in units still work", () => {
+        assertEquals(registry.Q`3 km`.toString(), "3 km");
+    });
+
+    await t.step("convert()", () => {
+        assertEquals(registry.Q`3 ton_short`.convert("kg").get(), { magnitude: 2721.55422, units: "kg" });
+        assertEquals(registry.Q`2721.55422 kg`.convert("ton_short").get(), { magnitude: 3, units: "ton_short" });
+        assertEquals(registry.Q`2 pax_km`.convert("_pax⋅m").get(), { magnitude: 2000, units: "_pax⋅m" });
+    });
+
+    await t.step("prefixes", () => {
+        assertEquals(registry.Q`3 kblip`.convert("kg").get(), { magnitude: 6000, units: "kg" });
+    });
+
+    await t.step("arithmetic preserves the registry", () => {
+        const x = registry.Q`2 ton_short`;
+        assertEquals(x.add(Q`500 kg`).registry, registry);
+        assertEquals(Q`500 kg`.add(x).registry, registry);
+        assertEquals(x.multiply(Q`3 m`).toString(), "6 ton_short⋅m");
+        assertEquals(Q`3 m`.multiply(x).toString(), "6 m⋅ton_short");
+        assertEquals(registry.Q`10 pax_km`.divide(Q`2 h`).toString(), "5 pax_km/h");
+        assertEquals(x.pow(2).toString(), "4 ton_short^2");
+    });
+
+    await t.step("units picked from a list are cached for each registry", () => {
+        class TestQuantity extends Quantity {
+            public pick(units: readonly PreferredUnit[]) {
+                return this.pickUnitsFromList(units);
+            }
+        }
+        const units = [{ unit: "zork" }, { unit: "s" }];
+        const massRegistry = new UnitRegistry({ zork: { s: 5, d: MASS_DIMENSION } });
+        const lengthRegistry = new UnitRegistry({ zork: { s: 5, d: new Dimensions([0, 1, 0, 0, 0, 0, 0, 0]) } });
+        const x = new TestQuantity(10, { units: "kg/s", registry: massRegistry });
+        assertEquals(toUnitString(x.pick(units)), "zork/s");
+        assertStrictEquals(x.pick(units), x.pick(units));
+        // The same unit name can mean something else in another registry, so it has its own cache:
+        const y = new TestQuantity(10, { units: "kg/s", registry: lengthRegistry });
+        assertThrows(() => y.pick(units), InvalidConversionError);
+    });
+
+    await t.step("quantities from different registries can't be combined", () => {
+        const otherRegistry = new UnitRegistry({ ton_short: { s: 907.18474, d: MASS_DIMENSION } });
+        assertThrows(
+            () => registry.Q`1 ton_short`.add(otherRegistry.Q`1 ton_short`),
+            QuantityError,
+            "Cannot combine quantities that use different unit registries.",
+        );
+    });
+
+    await t.step("defineUnit()", () => {
+        const r = new UnitRegistry();
+        r.defineUnit("ton_long", { s: 1016.0469088, d: MASS_DIMENSION });
+        assertEquals(r.Q`1 ton_long`.convert("lb").get(), { magnitude: 2240, units: "lb" });
+        assertEquals(Object.keys(r.customUnits), ["ton_long"]);
+    });
+
+    await t.step("defineUnit() with a derived unit", () => {
+        const r = new UnitRegistry();
+        r.defineUnit("_crate", "12 _bottle");
+        assertEquals(r.getUnitData("_crate"), { s: 12, d: new Dimensions([0, 0, 0, 0, 0, 0, 0, 0, 1], ["bottle"]) });
+        assertEquals(r.Q`3 _crate`.convert("_bottle").toString(), "36 _bottle");
+        assertEquals(r.Q`60 _bottle`.convert("_crate").toString(), "5 _crate");
+        // The custom dimension is "bottle" - there is no "crate" dimension:
+        assertEquals(r.Q`3 _crate`.dimensions.customDimensionNames, ["bottle"]);
+        assertEquals(r.Q`3 _crate`.multiply(Q`2 _bottle`).convert("_bottle^2").toString(), "72 _bottle^2");
+
+        r.defineUnit("_trip", "42 km");
+        assertEquals(r.Q`2 _trip`.convert("m").toString(), "84000 m");
+
+        r.defineUnit("battery", "1.5 kW⋅h", { prefixable: true });
+        assertEquals(r.Q`2 kbattery`.convert("MJ").toString(), "10800 MJ");
+    });
+
+    await t.step("defineUnit() with an offset unit", () => {
+        const temperature = new Dimensions([0, 0, 0, 1, 0, 0, 0, 0]);
+        const r = new UnitRegistry({
+            deltaRe: { s: 1.25, d: temperature },
+            degRe: { s: 1.25, d: temperature, offset: 273.15, delta: "deltaRe" },
+        });
+        assertEquals(r.Q`80 degRe`.convert("degC").toString(), "100 degC");
+        assertEquals(r.Q`40 degRe`.sub(r.Q`10 degRe`).toString(), "30 deltaRe");
+    });
+
+    await t.step("derived units in the UnitRegistry constructor", () => {
+        const r = new UnitRegistry({
+            _dozen: "12 _egg",
+            _gross: "12 _dozen",
+        });
+        assertEquals(r.Q`1 _gross`.convert("_egg").toString(), "144 _egg");
+    });
+
+    await t.step("defineUnit() rejects invalid derived units", () => {
+        const r = new UnitRegistry();
+        for (
+            const [name, definition, errorMsg] of [
+                ["_foo", "2 _foo", `The unit "_foo" cannot be defined in terms of itself.`],
+                ["baz", "2±1 m", `The definition of unit "baz" cannot have an uncertainty/tolerance.`],
+                ["baz", "5 degC", `The definition of unit "baz" cannot use offset units like degC.`],
+                ["baz", "-5 m", `Invalid definition for unit "baz"`],
+                ["baz", "5 blah", `Unable to parse the unit "blah"`],
+            ] as const
+        ) {
+            assertThrows(() => r.defineUnit(name, definition), QuantityError, errorMsg);
+        }
+    });
+
+    await t.step("defineUnit() rejects invalid or ambiguous units", () => {
+        const r = new UnitRegistry();
+        for (
+            const [name, unit, errorMsg] of [
+                ["m", { s: 1, d: MASS_DIMENSION }, `The unit "m" is already defined.`],
+                ["km", { s: 1, d: MASS_DIMENSION }, `The unit name "km" is ambiguous`],
+                ["in", { s: 1, d: MASS_DIMENSION, prefixable: true }, `The unit "in" is already defined.`],
+                [
+                    "a",
+                    { s: 1, d: MASS_DIMENSION, prefixable: true },
+                    `The unit name "a" is ambiguous: "ha" is already a unit.`,
+                ],
+                ["foo bar", { s: 1, d: MASS_DIMENSION }, `Invalid unit name "foo bar"`],
+                ["m/s", { s: 1, d: MASS_DIMENSION }, `Invalid unit name "m/s"`],
+                ["", { s: 1, d: MASS_DIMENSION }, `Invalid unit name ""`],
+                ["foo", { s: -1, d: MASS_DIMENSION }, `Invalid definition for unit "foo"`],
+                ["foo", { s: 1, d: MASS_DIMENSION, offset: NaN }, `Invalid offset for unit "foo"`],
+                ["foo", { s: 1, d: MASS_DIMENSION, offset: 5, delta: "m" }, `Invalid delta unit "m" for unit "foo"`],
+                ["foo", { s: 1, d: MASS_DIMENSION, logarithmic: { decibels: 0 } }, `Invalid logarithmic scale`],
+            ] as const
+        ) {
+            assertThrows(() => r.defineUnit(name, unit), QuantityError, errorMsg);
+        }
+    });
+});
@@ -1,6 +1,6 @@
 import { assertEquals, assertThrows } from "@std/assert";
-import { builtInUnits, ParsedUnit, parseUnits, QuantityError } from "../mod.ts";
-import { prefixes, Unit } from "../units.ts";
+import { builtInUnits, type ParsedUnit, parseUnits, QuantityError, toUnitString } from "../mod.ts";
+import { prefixes, type Unit } from "../units.ts";
 
 Deno.test(`parseUnits()`, async (t) => {
     const pairs: [input: string, output: ParsedUnit[]][] = [
@@ -15,6 +15,9 @@ Deno.test(`parseUnits()`, async (t) => {
         ["qg", [{ prefix: "q", unit: "g", power: 1 }]],
         ["mV^2", [{ prefix: "m", unit: "V", power: 2 }]],
         ["MHz", [{ prefix: "M", unit: "Hz", power: 1 }]],
+        // "dB" is always a decibel, never a decibyte, but other prefixes still work with bytes:
+        ["dB", [{ unit: "dB", power: 1 }]],
+        ["kB", [{ prefix: "k", unit: "B", power: 1 }]],
         ["km/s", [
             { prefix: "k", unit: "m", power: 1 },
             { unit: "s", power: -1 },
@@ -37,6 +40,50 @@ Deno.test(`parseUnits()`, async (t) => {
         ["pphpd", [
             { unit: "pphpd", power: 1 },
         ]],
+        ["kg/(m⋅s^2)", [
+            { prefix: "k", unit: "g", power: 1 },
+            { unit: "m", power: -1 },
+            { unit: "s", power: -2 },
+        ]],
+        ["m/s/s", [
+            { unit: "m", power: 1 },
+            { unit: "s", power: -2 },
+        ]],
+        ["m²", [{ unit: "m", power: 2 }]],
+        ["s⁻¹", [{ unit: "s", power: -1 }]],
+        ["kg⋅m/s²", [
+            { prefix: "k", unit: "g", power: 1 },
+            { unit: "m", power: 1 },
+            { unit: "s", power: -2 },
+        ]],
+        ["kg*m", [
+            { prefix: "k", unit: "g", power: 1 },
+            { unit: "m", power: 1 },
+        ]],
+        ["m**2", [{ unit: "m", power: 2 }]],
+        ["kg·m", [
+            { prefix: "k", unit: "g", power: 1 },
+            { unit: "m", power: 1 },
+        ]],
+        ["(m/s)^2", [
+            { unit: "m", power: 2 },
+            { unit: "s", power: -2 },
+        ]],
+        ["1/s", [{ unit: "s", power: -1 }]],
+        ["s^−1", [{ unit: "s", power: -1 }]],
+        ["J/(mol⋅K)", [
+            { unit: "J", power: 1 },
+            { unit: "mol", power: -1 },
+            { unit: "K", power: -1 },
+        ]],
+        ["m⋅m", [{ unit: "m", power: 2 }]],
+        // Identical units cancel out:
+        ["m/m", []],
+        ["kg m/m", [{ prefix: "k", unit: "g", power: 1 }]],
+        ["km⋅m", [
+            { prefix: "k", unit: "m", power: 1 },
+            { unit: "m", power: 1 },
+        ]],
     ];
 
     for (const [unitStr, result] of pairs) {
@@ -77,6 +124,18 @@ Deno.test(`parseUnits() - invalid Strings`, async (t) => {
         ["mmin", `Unable to parse the unit "mmin"`], // milli-minute
         ["kh", `Unable to parse the unit "kh"`], // kilo-hour
         ["kka", `Unable to parse the unit "kka"`], // kilo-kilo-annum
+        // Invalid syntax:
+        ["", `Unexpected end of the unit string ""`],
+        ["kg/", `Unexpected end of the unit string "kg/"`],
+        ["kg/(m⋅s", `Unexpected end of the unit string "kg/(m⋅s"`],
+        ["kg/m)", `Unexpected ")" at column 5 of the unit string "kg/m)"`],
+        ["/s", `Unexpected "/" at column 1 of the unit string "/s"`],
+        ["kg⋅⋅m", `Unexpected "⋅" at column 4 of the unit string "kg⋅⋅m"`],
+        ["m ^2", `Unexpected "^" at column 3 of the unit string "m ^2"`],
+        ["²", `Unexpected "²" at column 1 of the unit string "²"`],
+        ["m⁻", `Invalid exponent/power on unit "m⁻"`],
+        ["(m/s)^0", `Invalid exponent/power on unit "(m/s)^0"`],
+        ["2/s", `Unable to parse the unit "2"`],
     ];
 
     for (const [unitStr, errorMsg] of pairs) {
@@ -86,6 +145,28 @@ Deno.test(`parseUnits() - invalid Strings`, async (t) => {
     }
 });
 
+Deno.test(`toUnitString()`, async (t) => {
+    for (
+        const [unitStr, expected, expectedSuperscripts] of [
+            ["km", "km", "km"],
+            ["m^2", "m^2", "m²"],
+            ["kg⋅m/s^2", "kg⋅m/s^2", "kg⋅m/s²"],
+            ["kg/(m⋅s^2)", "kg/m⋅s^2", "kg/m⋅s²"],
+            ["s^-1", "s^-1", "s⁻¹"],
+            ["1/m^3⋅s", "m^-3⋅s^-1", "m⁻³⋅s⁻¹"],
+            ["m^10/s^12", "m^10/s^12", "m¹⁰/s¹²"],
+        ] as const
+    ) {
+        await t.step(`toUnitString(parseUnits("${unitStr}"))`, () => {
+            const units = parseUnits(unitStr);
+            assertEquals(toUnitString(units), expected);
+            assertEquals(toUnitString(units, { superscripts: true }), expectedSuperscripts);
+            // The superscript version can be parsed too:
+            assertEquals(parseUnits(expectedSuperscripts), units);
+        });
+    }
+});
+
 Deno.test("check for ambiguous units", async (t) => {
     // Make sure we don't have any unit where some prefix + the unit abbreviation equals the abbreviation of another unit.
     // e.g. "m" (milli) + "in" (inches) = "min" = milli-inches or minutes?
@@ -94,12 +175,15 @@ Deno.test("check for ambiguous units", async (t) => {
         !prefix.endsWith("i")
     ) as (keyof typeof prefixes)[];
     const binaryPrefixes = Object.keys(prefixes).filter((prefix) => prefix.endsWith("i")) as (keyof typeof prefixes)[];
+    // The only exception: "dB" is a decibel, not a decibyte (which nobody uses).
+    const exceptions = ["dB"];
 
     for (const [unitAbbrev, unitData] of Object.entries(builtInUnits as Record<string, Unit>)) {
         if (unitData.prefixable) {
             await t.step(`${unitAbbrev} with regular SI prefixes`, () => {
                 // Test all the non-binary prefixes:
                 for (const prefix of regularPrefixes) {
+                    if (exceptions.includes(`${prefix}${unitAbbrev}`)) continue;
                     assertEquals(
                         parseUnits(`${prefix}${unitAbbrev}`),
                         [{ prefix, unit: unitAbbrev, power: 1 }],
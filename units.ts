@@ -41,7 +41,7 @@ export const prefixes = Object.freeze(
     } as const satisfies Record<string, number>,
 );
 
-type Prefix = keyof typeof prefixes;
+export type Prefix = keyof typeof prefixes;
 
 /**
  * Defines a Unit, like "kg" (kilograms), "W" (Watts), or "HP" (horsepower)
@@ -53,10 +53,33 @@ export interface Unit {
     readonly d: Dimensions;
     /** Offset: required for units where 0 value is different from 0 in the base SI unit (e.g. Farenheit) */
     readonly offset?: number;
+    /**
+     * For units with an offset, which measure an absolute value like a specific temperature ("degC"), this is the unit
+     * that measures the difference between two such values ("deltaC").
+     */
+    readonly delta?: string;
+    /**
+     * For logarithmic units like "dBm", which measure the logarithm of the ratio between a value and a reference level
+     * (given by the scale `s`), this is the size of the unit in decibels. Values of root-power quantities like voltage
+     * are squared to get a ratio of powers, so "20 dBV" is 10 V, while "20 dBm" is 100 mW.
+     */
+    readonly logarithmic?: { readonly decibels: number; readonly rootPower?: true };
+    /**
+     * Is this a unit of angle (like "deg") or of angular velocity (like "rpm")? Angles are dimensionless, but only
+     * these units (or plain numbers) can be used with trigonometric functions, and these units can't be converted to
+     * "Hz", because 1 Hz is 2π rad/s.
+     */
+    readonly angular?: true;
     /** Can metric prefixes like k-, m-, M-, etc. be used with this unit? */
     readonly prefixable?: true;
     /** Can binary prefixes like Ki-, Mi-, Gi-, etc. be used with this unit? */
     readonly binaryPrefixable?: true;
+    /**
+     * If this unit is only used for one kind of quantity, this is that kind. e.g. "Bq" is only used for radioactivity
+     * ("activity"), even though it has the same dimensions as "Hz", which is used for any frequency.
+     * See {@link Quantity.kind}.
+     */
+    readonly kind?: string;
 }
 
 const MASS_DIMENSION: Dimensions = new Dimensions([1, 0, 0, 0, 0, 0, 0, 0]);
@@ -69,6 +92,8 @@ const POWR_DIMENSIONS: Dimensions = new Dimensions([1, 2, -3, 0, 0, 0, 0, 0]);
 const VOLM_DIMENSIONS: Dimensions = new Dimensions([0, 3, 0, 0, 0, 0, 0, 0]);
 const AREA_DIMENSIONS: Dimensions = new Dimensions([0, 2, 0, 0, 0, 0, 0, 0]);
 const INFO_DIMENSIONS: Dimensions = new Dimensions([0, 0, 0, 0, 0, 0, 0, 1]);
+const LUMI_DIMENSION: Dimensions = new Dimensions([0, 0, 0, 0, 0, 0, 1, 0]);
+const ILLU_DIMENSIONS: Dimensions = new Dimensions([0, -2, 0, 0, 0, 0, 1, 0]);
 const PRSR_DIMENSIONS: Dimensions = new Dimensions([1, -1, -2, 0, 0, 0, 0, 0]);
 
 /**
@@ -95,21 +120,29 @@ export const builtInUnits = Object.freeze(
         // "Da": { s: 1.6605390666e-27, d: MASS_DIMENSION },
         // "u": { s: 1.6605390666e-27, d: MASS_DIMENSION },
         // "AMU": { s: 1.6605390666e-27, d: MASS_DIMENSION },
-        // "grain": { s: 6.479891e-5, d: MASS_DIMENSION },
-        // "ozm": { s: 2.8349523125e-2, d: MASS_DIMENSION },
+        /** Grain: exactly 1/7000 of a pound */
+        "grain": { s: 6.479891e-5, d: MASS_DIMENSION },
+        /** Ounce (avoirdupois): exactly 1/16 of a pound. For the unit of volume, see "us_fl_oz" or "uk_fl_oz". */
+        "oz": { s: 2.8349523125e-2, d: MASS_DIMENSION },
         // "dram": { s: 1.7718451953125e-3, d: MASS_DIMENSION },
         /** Pound */
         "lb": { s: 4.5359237e-1, d: MASS_DIMENSION },
-        // "stone": { s: 6.35029318e+0, d: MASS_DIMENSION },
+        /** Stone: exactly 14 pounds */
+        "stone": { s: 6.35029318e+0, d: MASS_DIMENSION },
         // "sg": { s: 1.45939029372064e+1, d: MASS_DIMENSION },
-        // "slug": { s: 1.45939029372064e+1, d: MASS_DIMENSION },
-        // "cwt": { s: 4.5359237e+1, d: MASS_DIMENSION },
+        /** Slug: the mass that accelerates at 1 ft/s^2 when a force of 1 lbf is applied */
+        "slug": { s: 1.4593902937206364e+1, d: MASS_DIMENSION },
+        /** Short hundredweight (US): exactly 100 pounds */
+        "short_cwt": { s: 4.5359237e+1, d: MASS_DIMENSION },
         // "dwt": { s: 1.55517384e-3, d: MASS_DIMENSION },
-        // "uk_cwt": { s: 5.080234544e+1, d: MASS_DIMENSION },
-        // "ton": { s: 9.0718474e+2, d: MASS_DIMENSION },
-        // "uk_ton": { s: 1.0160469088e+3, d: MASS_DIMENSION },
-        // "metric_ton": { s: 1e+3, d: MASS_DIMENSION },
-        // "tonne": { s: 1e+3, d: MASS_DIMENSION },
+        /** Long hundredweight (UK): exactly 112 pounds */
+        "long_cwt": { s: 5.080234544e+1, d: MASS_DIMENSION },
+        /** Short ton (US): exactly 2000 pounds */
+        "short_ton": { s: 9.0718474e+2, d: MASS_DIMENSION },
+        /** Long ton (UK): exactly 2240 pounds */
+        "long_ton": { s: 1.0160469088e+3, d: MASS_DIMENSION },
+        /** Tonne (metric ton): exactly 1000 kg */
+        "tonne": { s: 1e+3, d: MASS_DIMENSION },
         // "carat": { s: 2e-4, d: MASS_DIMENSION },
         // "assay_ton": { s: 2.9166666666666667e-2, d: MASS_DIMENSION },
 
@@ -127,16 +160,20 @@ export const builtInUnits = Object.freeze(
         "in": { s: 2.54e-2, d: DIST_DIMENSION },
         // "mil": { s: 2.54e-5, d: DIST_DIMENSION },
         "ft": { s: 3.048e-1, d: DIST_DIMENSION },
-        // "yd": { s: 9.144e-1, d: DIST_DIMENSION },
+        /** Yard: exactly 3 feet */
+        "yd": { s: 9.144e-1, d: DIST_DIMENSION },
         // "ell": { s: 1.143e+0, d: DIST_DIMENSION },
         "mi": { s: 1.609344e+3, d: DIST_DIMENSION },
-        // "survey_mi": { s: 1.6093472186944373e+3, d: DIST_DIMENSION },
-        // "nmi": { s: 1.852e+3, d: DIST_DIMENSION },
+        /** US survey mile, based on the US survey foot */
+        "survey_mi": { s: 1.6093472186944373e+3, d: DIST_DIMENSION },
+        /** Nautical mile: exactly 1852 m */
+        "nmi": { s: 1.852e+3, d: DIST_DIMENSION },
         // "Nmi": { s: 1.852e+3, d: DIST_DIMENSION },
         // "league": { s: 5.556e+3, d: DIST_DIMENSION },
         // "ly": { s: 9.4607304725808e+15, d: DIST_DIMENSION },
         // "parsec": { s: 3.08567758128155e+16, d: DIST_DIMENSION },
-        // "survey_ft": { s: 3.048006096012192e-1, d: DIST_DIMENSION },
+        /** US survey foot: exactly 1200/3937 m. Used for some land surveys in the US before 2023. */
+        "survey_ft": { s: 3.048006096012192e-1, d: DIST_DIMENSION },
         // "AU": { s: 1.495978707e+11, d: DIST_DIMENSION },
         // "chain": { s: 2.0116840233680467e+1, d: DIST_DIMENSION },
         // "link": { s: 2.0116840233680466e-1, d: DIST_DIMENSION },
@@ -185,22 +222,28 @@ export const builtInUnits = Object.freeze(
         "K": { s: 1e+0, d: TEMP_DIMENSION, prefixable: true },
         /** Difference in temperature, degrees Celcius */
         "deltaC": { s: 1e+0, d: TEMP_DIMENSION },
+        /** Difference in temperature, degrees Fahrenheit */
+        "deltaF": { s: 5.555555555555556e-1, d: TEMP_DIMENSION },
         /** A specific temperature, in degrees Fahrenheit */
-        "degF": { s: 5.555555555555556e-1, d: TEMP_DIMENSION, offset: 2.553722222222222e+2 },
+        "degF": { s: 5.555555555555556e-1, d: TEMP_DIMENSION, offset: 2.553722222222222e+2, delta: "deltaF" },
         /** A specific temperature, in degrees Celcius, like "water freezes at 0°C"; not a relative temperature. */
-        "degC": { s: 1e+0, d: TEMP_DIMENSION, offset: 2.7315e+2 },
-        // "Ra": { s: 5.555555555555556e-1, d: TEMP_DIMENSION },
-        // "Rank": { s: 5.555555555555556e-1, d: TEMP_DIMENSION },
-        // "deltaF": { s: 5.555555555555556e-1, d: TEMP_DIMENSION },
+        "degC": { s: 1e+0, d: TEMP_DIMENSION, offset: 2.7315e+2, delta: "deltaC" },
+        /**
+         * Degrees Rankine: an absolute temperature scale like kelvins (0 is absolute zero), but with degrees the same
+         * size as degrees Fahrenheit.
+         */
+        "degR": { s: 5.555555555555556e-1, d: TEMP_DIMENSION },
         // "Reau": { s: 1.25e+0, d: TEMP_DIMENSION, "o": 2.7315e+2 },
         // "deltaReau": { s: 1.25e+0, d: TEMP_DIMENSION },
 
         // Speed
 
         // "kph": { s: 2.777777777777778e-1, d: new Dimensions([0, 1, -1, 0, 0, 0, 0, 0]) },
-        // "mph": { s: 4.4704e-1, d: new Dimensions([0, 1, -1, 0, 0, 0, 0, 0]) },
+        /** Miles per hour */
+        "mph": { s: 4.4704e-1, d: new Dimensions([0, 1, -1, 0, 0, 0, 0, 0]) },
         // "fps": { s: 3.048e-1, d: new Dimensions([0, 1, -1, 0, 0, 0, 0, 0]) },
-        // "knot": { s: 5.14444444444444e-1, d: new Dimensions([0, 1, -1, 0, 0, 0, 0, 0]) },
+        /** Knot: one nautical mile per hour */
+        "knot": { s: 5.144444444444445e-1, d: new Dimensions([0, 1, -1, 0, 0, 0, 0, 0]) },
         // "admkn": { s: 5.14773333333333e-1, d: new Dimensions([0, 1, -1, 0, 0, 0, 0, 0]) },
         "c": { s: 2.99792458e+8, d: new Dimensions([0, 1, -1, 0, 0, 0, 0, 0]) },
         // "grav": { s: 9.80665e+0, d: new Dimensions([0, 1, -2, 0, 0, 0, 0, 0]) },
@@ -214,29 +257,34 @@ export const builtInUnits = Object.freeze(
         "psi": { s: 6.89475729316836e+3, d: PRSR_DIMENSIONS },
         /** Standard atmosphere, equal to 101325 pascals (Pa) */
         "atm": { s: 1.01325e+5, d: PRSR_DIMENSIONS },
-        /** The bar is a deprecated metric unit of pressure */
-        // "bar": { s: 1e+5, d: PRSR_DIMENSIONS },
+        /** Bar: a metric unit of pressure, equal to exactly 100 kPa. Not an SI unit, but widely used. */
+        "bar": { s: 1e+5, d: PRSR_DIMENSIONS, prefixable: true },
         // "inHg": { s: 3.3863886666667e+3, d: PRSR_DIMENSIONS },
         // "inH2O": { s: 2.4908891e+2, d: PRSR_DIMENSIONS },
         // "ftHg": { s: 4.0636664e+4, d: PRSR_DIMENSIONS },
         // "ftH2O": { s: 2.98906692e+3, d: PRSR_DIMENSIONS },
         /** Barye: CGS standard unit for pressure */
-        // "Ba": { s: 1e-1, d: PRSR_DIMENSIONS },
+        "Ba": { s: 1e-1, d: PRSR_DIMENSIONS },
+        // Gauge pressure units measure pressure relative to standard atmospheric pressure (1 atm), so "0 psi-g" is
+        // "1 atm". Like "degC", these are absolute values, with a matching unit (e.g. "psi") for differences.
         /** Gauge Pascal: Pascal with a zero offset at atmospheric pressure */
-        // "Pa-g": { s: 1e+0, d: PRSR_DIMENSIONS, offset: 1.01325e+5 },
-        // "bar-g": { s: 1e+5, d: PRSR_DIMENSIONS, offset: 1.01325e+5 },
-        // "psi-g": { s: 6.89475729316836e+3, d: PRSR_DIMENSIONS, offset: 1.01325e+5},
+        "Pa-g": { s: 1e+0, d: PRSR_DIMENSIONS, offset: 1.01325e+5, delta: "Pa", prefixable: true },
+        /** Gauge bar: bar with a zero offset at atmospheric pressure */
+        "bar-g": { s: 1e+5, d: PRSR_DIMENSIONS, offset: 1.01325e+5, delta: "bar" },
+        /** Gauge pounds per square inch: psi with a zero offset at atmospheric pressure */
+        "psi-g": { s: 6.89475729316836e+3, d: PRSR_DIMENSIONS, offset: 1.01325e+5, delta: "psi" },
 
         // Force
 
         /** Newtons */
         "N": { s: 1e+0, d: new Dimensions([1, 1, -2, 0, 0, 0, 0, 0]), prefixable: true },
-        // "dyn": { s: 1e-5, d: new Dimensions([1, 1, -2, 0, 0, 0, 0, 0]) },
+        /** Dyne: CGS unit for force, equal to 1 g⋅cm/s^2 */
+        "dyn": { s: 1e-5, d: new Dimensions([1, 1, -2, 0, 0, 0, 0, 0]) },
         /** Gram Force: the amount of force exerted by standard gravity on a 1 gram mass */
         // "gf": { s: 9.80665e-3, d: new Dimensions([1, 1, -2, 0, 0, 0, 0, 0]) },
         // "pond": { s: 9.80665e-3, d: new Dimensions([1, 1, -2, 0, 0, 0, 0, 0]) },
         /** Pound Force */
-        // "lbf": { s: 4.4482216152605e+0, d: new Dimensions([1, 1, -2, 0, 0, 0, 0, 0]) },
+        "lbf": { s: 4.4482216152605e+0, d: new Dimensions([1, 1, -2, 0, 0, 0, 0, 0]) },
         // "ozf": { s: 2.78013850953781e-1, d: new Dimensions([1, 1, -2, 0, 0, 0, 0, 0]) },
         // "pdl": { s: 1.38254954376e-1, d: new Dimensions([1, 1, -2, 0, 0, 0, 0, 0]) },
         // "ton-force": { s: 8.896443230521e+3, d: new Dimensions([1, 1, -2, 0, 0, 0, 0, 0]) },
@@ -247,7 +295,8 @@ export const builtInUnits = Object.freeze(
         "J": { s: 1e+0, d: NRGY_DIMENSIONS, prefixable: true },
         /** electronvolt */
         "eV": { s: 1.602176634e-19, d: NRGY_DIMENSIONS, prefixable: true }, // 2019 definition, see https://physics.nist.gov/cgi-bin/cuu/Value?evj or Wikipedia
-        // "erg": { s: 1e-7, d: NRGY_DIMENSIONS },
+        /** Erg: CGS unit for energy, equal to 1 dyn⋅cm */
+        "erg": { s: 1e-7, d: NRGY_DIMENSIONS },
         /** Calorie */
         // "cal": { s: 4.1868, d: NRGY_DIMENSIONS },
         /** Kilo-calorie, commonly called simply "Calorie", used to measure energy in food in the US. */
@@ -289,21 +338,36 @@ export const builtInUnits = Object.freeze(
 
         /** Litres */
         "L": { s: 1e-3, d: VOLM_DIMENSIONS, prefixable: true },
-        // "tsp": { s: 4.92892159375e-6, d: VOLM_DIMENSIONS },
+        // US and imperial (UK) units of volume have the same names but different sizes, so they always have a "us_" or
+        // "uk_" prefix here.
+        /** US teaspoon: exactly 1/6 of a US fluid ounce */
+        "us_tsp": { s: 4.92892159375e-6, d: VOLM_DIMENSIONS },
         // "tspm": { s: 5e-6, d: VOLM_DIMENSIONS },
-        // "tbs": { s: 1.478676478125e-5, d: VOLM_DIMENSIONS },
-        // "fl_oz": { s: 2.95735295625e-5, d: VOLM_DIMENSIONS },
-        // "uk_fl_oz": { s: 2.84130625e-5, d: VOLM_DIMENSIONS },
-        // "cup": { s: 2.365882365e-4, d: VOLM_DIMENSIONS },
-        // "pt": { s: 4.73176473e-4, d: VOLM_DIMENSIONS },
-        // "uk_pt": { s: 5.6826125e-4, d: VOLM_DIMENSIONS },
-        // "qt": { s: 9.46352946e-4, d: VOLM_DIMENSIONS },
-        // "uk_qt": { s: 1.1365225e-3, d: VOLM_DIMENSIONS },
-        // "gal": { s: 3.785411784e-3, d: VOLM_DIMENSIONS },
-        // "uk_gal": { s: 4.54609e-3, d: VOLM_DIMENSIONS },
-        // "bushel": { s: 3.523907016688e-2, d: VOLM_DIMENSIONS },
+        /** US tablespoon: exactly 1/2 of a US fluid ounce */
+        "us_tbsp": { s: 1.478676478125e-5, d: VOLM_DIMENSIONS },
+        /** US fluid ounce: exactly 1/128 of a US gallon */
+        "us_fl_oz": { s: 2.95735295625e-5, d: VOLM_DIMENSIONS },
+        /** Imperial (UK) fluid ounce: exactly 1/160 of an imperial gallon */
+        "uk_fl_oz": { s: 2.84130625e-5, d: VOLM_DIMENSIONS },
+        /** US customary cup: exactly 8 US fluid ounces */
+        "us_cup": { s: 2.365882365e-4, d: VOLM_DIMENSIONS },
+        /** US liquid pint: exactly 1/8 of a US gallon */
+        "us_pt": { s: 4.73176473e-4, d: VOLM_DIMENSIONS },
+        /** Imperial (UK) pint: exactly 1/8 of an imperial gallon */
+        "uk_pt": { s: 5.6826125e-4, d: VOLM_DIMENSIONS },
+        /** US liquid quart: exactly 1/4 of a US gallon */
+        "us_qt": { s: 9.46352946e-4, d: VOLM_DIMENSIONS },
+        /** Imperial (UK) quart: exactly 1/4 of an imperial gallon */
+        "uk_qt": { s: 1.1365225e-3, d: VOLM_DIMENSIONS },
+        /** US liquid gallon: exactly 231 cubic inches */
+        "us_gal": { s: 3.785411784e-3, d: VOLM_DIMENSIONS },
+        /** Imperial (UK) gallon: exactly 4.54609 litres */
+        "uk_gal": { s: 4.54609e-3, d: VOLM_DIMENSIONS },
+        /** US bushel (dry measure): exactly 2150.42 cubic inches */
+        "us_bu": { s: 3.523907016688e-2, d: VOLM_DIMENSIONS },
         // "bbl": { s: 1.58987294928e-1, d: VOLM_DIMENSIONS },
-        // "oilbarrel": { s: 1.58987294928e-1, d: VOLM_DIMENSIONS },
+        /** Barrel of oil: exactly 42 US gallons */
+        "oil_bbl": { s: 1.58987294928e-1, d: VOLM_DIMENSIONS },
         // "beerbarrel": { s: 1.17347765304e-1, d: VOLM_DIMENSIONS },
         // "uk_beerbarrel": { s: 1.6365924e-1, d: VOLM_DIMENSIONS },
         // "MTON": { s: 1.13267386368e+0, d: VOLM_DIMENSIONS },
@@ -318,9 +382,10 @@ export const builtInUnits = Object.freeze(
 
         // "ar": { s: 1e+2, d: AREA_DIMENSIONS },
         // "morgen": { s: 2.5e+3, d: AREA_DIMENSIONS },
-        // "acre": { s: 4.04687260987425e+3, d: AREA_DIMENSIONS },
-        // "us_acre": { s: 4.04687260987425e+3, d: AREA_DIMENSIONS },
-        // "uk_acre": { s: 4.0468564224e+3, d: AREA_DIMENSIONS },
+        /** International acre: exactly 43,560 square feet. Used in the US since 2023, and in the UK. */
+        "acre": { s: 4.0468564224e+3, d: AREA_DIMENSIONS },
+        /** US survey acre: 43,560 square US survey feet. Used for some land surveys in the US before 2023. */
+        "survey_acre": { s: 4.0468726098742513e+3, d: AREA_DIMENSIONS },
         /** hectare: non-SI metric unit of area equal to a square with 100-metre sides */
         "ha": { s: 1e+4, d: AREA_DIMENSIONS },
         // "barn": { s: 1e-28, d: AREA_DIMENSIONS },
@@ -373,42 +438,80 @@ export const builtInUnits = Object.freeze(
         "M": { s: 1e+3, d: new Dimensions([0, -3, 0, 0, 0, 1, 0, 0]) },
         // "kat": { s: 1e+0, d: new Dimensions([0, 0, -1, 0, 0, 1, 0, 0]) },
         // "U": { s: 1.6666666666666667e-8, d: new Dimensions([0, 0, -1, 0, 0, 1, 0, 0]) },
-        /** Candela */
-        // "cd": { s: 1e+0, d: new Dimensions([0, 0, 0, 0, 0, 0, 1, 0]) },
-        /** Lumen */
-        // "lm": { s: 1e+0, d: new Dimensions([0, 0, 0, 0, 0, 0, 1, 0]) },
-        /** Lux */
-        // "lx": { s: 1e+0, d: new Dimensions([0, -2, 0, 0, 0, 0, 1, 0]) },
-        // "footcandle": {
-        //     "s": 1.0763910416709722e+1,
-        //     "d": [0, -2, 0, 0, 0, 0, 1, 0],
-        // },
+        /** Candela: SI base unit of luminous intensity */
+        "cd": { s: 1e+0, d: LUMI_DIMENSION, prefixable: true },
+        /** Lumen: SI derived unit of luminous flux, equal to 1 cd⋅sr (and since angles are dimensionless, 1 cd) */
+        "lm": { s: 1e+0, d: LUMI_DIMENSION, prefixable: true, kind: "luminous flux" },
+        /** Lux: SI derived unit of illuminance, equal to 1 lm/m^2 */
+        "lx": { s: 1e+0, d: ILLU_DIMENSIONS, prefixable: true },
+        /** Foot-candle: non-SI unit of illuminance, equal to 1 lm/ft^2 */
+        "footcandle": { s: 1.0763910416709722e+1, d: ILLU_DIMENSIONS },
         // "footlambert": {
         //     "s": 3.4262590996353905e+0,
         //     "d": [0, -2, 0, 0, 0, 0, 1, 0],
         // },
-        // "lambert": { s: 3.183098861837907e+3, d: new Dimensions([0, -2, 0, 0, 0, 0, 1, 0]) },
+        /** Lambert: CGS unit of luminance, equal to (1/π) cd/cm^2 */
+        "lambert": { s: 3.183098861837907e+3, d: ILLU_DIMENSIONS },
         // "phot": { s: 1e+4, d: new Dimensions([0, -2, 0, 0, 0, 0, 1, 0]) },
         // "stilb": { s: 1e+4, d: new Dimensions([0, -2, 0, 0, 0, 0, 1, 0]) },
-        // "rad": { s: 1e+0, d: new Dimensions([0, 0, 0, 0, 0, 0, 0, 0]) },
-        // "sr": { s: 1e+0, d: new Dimensions([0, 0, 0, 0, 0, 0, 0, 0]) },
-        // "rev": { s: 6.283185307179586e+0, d: new Dimensions([0, 0, 0, 0, 0, 0, 0, 0]) },
-        // "deg": { s: 1.7453292519943295e-2, d: new Dimensions([0, 0, 0, 0, 0, 0, 0, 0]) },
-        // "arcmin": { s: 2.908882086657216e-4, d: new Dimensions([0, 0, 0, 0, 0, 0, 0, 0]) },
-        // "arcsec": { s: 4.84813681109536e-6, d: new Dimensions([0, 0, 0, 0, 0, 0, 0, 0]) },
-        /** If the non-SI unit rpm is considered a unit of angular velocity and the word "revolution" is considered to mean 2π radians, then 1 rpm = 2π/60 rad/s */
-        // "rpm" : {s: 1.0471975511965977e-1, "d": new Dimensions([0,0,-1,0,0,0,0,0])},
-        /** If the non-SI unit rpm is considered a unit of frequency, then 1 rpm = 1/60 Hz (Wikipedia) */
-        // "rpm": { s: 1/60, d: new Dimensions([0, 0, -1, 0, 0, 0, 0, 0]) },
+        // Angles: like the SI, we treat these as dimensionless, so "1 rad" is just the number 1.
+        /** Radian: SI derived unit of (plane) angle */
+        "rad": { s: 1e+0, d: Dimensionless, prefixable: true, angular: true },
+        /** Steradian: SI derived unit of solid angle */
+        "sr": { s: 1e+0, d: Dimensionless },
+        /** Revolution (one full turn): 2π radians */
+        "rev": { s: 6.283185307179586e+0, d: Dimensionless, angular: true },
+        /** Degree of angle: π/180 radians */
+        "deg": { s: 1.7453292519943295e-2, d: Dimensionless, angular: true },
+        /** Minute of arc: 1/60 of a degree */
+        "arcmin": { s: 2.908882086657216e-4, d: Dimensionless, angular: true },
+        /** Second of arc: 1/60 of an arcminute */
+        "arcsec": { s: 4.84813681109536e-6, d: Dimensionless, angular: true },
+        /**
+         * Revolutions per minute, as a unit of angular velocity: 1 rpm = 2π/60 rad/s.
+         * (Since 1 rpm would be 2π/60 Hz, not 1/60 Hz, converting between angular velocities and Hz is not allowed.)
+         */
+        "rpm": { s: 1.0471975511965977e-1, d: new Dimensions([0, 0, -1, 0, 0, 0, 0, 0]), angular: true },
         /** Hertz: Frequency defined as 1 (cycle or rotation) / sec */
         "Hz": { s: 1, d: new Dimensions([0, 0, -1, 0, 0, 0, 0, 0]), prefixable: true },
-        // "Bq": { s: 1e+0, d: new Dimensions([0, 0, -1, 0, 0, 0, 0, 0]) },
-        // "Gy": { s: 1e+0, d: new Dimensions([0, 2, -2, 0, 0, 0, 0, 0]) },
-        // "Sv": { s: 1e+0, d: new Dimensions([0, 2, -2, 0, 0, 0, 0, 0]) },
+
+        // Radiation:
+
+        /** Becquerel: SI derived unit of radioactivity (one decay per second) */
+        "Bq": { s: 1e+0, d: new Dimensions([0, 0, -1, 0, 0, 0, 0, 0]), prefixable: true, kind: "activity" },
+        /** Curie: non-SI unit of radioactivity, defined as exactly 3.7e10 Bq */
+        "Ci": { s: 3.7e+10, d: new Dimensions([0, 0, -1, 0, 0, 0, 0, 0]), prefixable: true, kind: "activity" },
+        /** Gray: SI derived unit of absorbed dose of ionizing radiation (1 J/kg) */
+        "Gy": { s: 1e+0, d: new Dimensions([0, 2, -2, 0, 0, 0, 0, 0]), prefixable: true, kind: "absorbed dose" },
+        /** Sievert: SI derived unit of equivalent/effective dose of ionizing radiation (1 J/kg) */
+        "Sv": { s: 1e+0, d: new Dimensions([0, 2, -2, 0, 0, 0, 0, 0]), prefixable: true, kind: "equivalent dose" },
+        /** Roentgen equivalent man: non-SI unit of equivalent dose, equal to 0.01 Sv */
+        "rem": { s: 1e-2, d: new Dimensions([0, 2, -2, 0, 0, 0, 0, 0]), prefixable: true, kind: "equivalent dose" },
         // "R": { s: 2.58e-4, d: new Dimensions([-1, 0, 1, 0, 1, 0, 0, 0]) },
         // "RAD": { s: 1e-2, d: new Dimensions([0, 2, -2, 0, 0, 0, 0, 0]) },
-        // "rem": { s: 1e-2, d: new Dimensions([0, 2, -2, 0, 0, 0, 0, 0]) },
-        // "Ci": { s: 3.7e+10, d: new Dimensions([0, 0, -1, 0, 0, 0, 0, 0]) },
+
+        // Logarithmic units: values in these units are converted to (and from) linear values like "100 mW" nonlinearly.
+        // Units with dimensions measure a level relative to a reference value, while "dB" and "Np" measure a ratio.
+
+        /** Decibel: a ratio of two powers, where 10 dB is a factor of 10. (Not to be confused with a decibyte.) */
+        "dB": { s: 1e+0, d: Dimensionless, logarithmic: { decibels: 1 } },
+        /** Neper: a ratio of two root-power quantities (like voltages), where 1 Np is a factor of e. 1 Np ≈ 8.686 dB */
+        "Np": { s: 1e+0, d: Dimensionless, logarithmic: { decibels: 8.685889638065035e+0 } },
+        /** Decibel-milliwatts: a power level, relative to 1 mW */
+        "dBm": { s: 1e-3, d: POWR_DIMENSIONS, logarithmic: { decibels: 1 } },
+        /** Decibel-volts: a voltage level, relative to 1 V */
+        "dBV": {
+            s: 1e+0,
+            d: new Dimensions([1, 2, -3, 0, -1, 0, 0, 0]),
+            logarithmic: { decibels: 1, rootPower: true },
+        },
+        /** Sound pressure level in air, relative to 20 µPa (roughly the quietest sound that people can hear) */
+        "dBSPL": { s: 2e-5, d: PRSR_DIMENSIONS, logarithmic: { decibels: 1, rootPower: true } },
+        /**
+         * pH: the negative base-10 logarithm of the hydrogen ion concentration, relative to 1 mol/L. This is
+         * "pH_value" because "pH" is a picohenry.
+         */
+        "pH_value": { s: 1e+3, d: new Dimensions([0, -3, 0, 0, 0, 1, 0, 0]), logarithmic: { decibels: -10 } },
 
         // Misc.
 
@@ -447,7 +550,7 @@ export const baseSIUnits: readonly PreferredUnit[] = Object.freeze([
     { unit: "K" },
     { unit: "A" },
     { unit: "mol" },
-    // {unit: "cd"},
+    { unit: "cd" },
     { unit: "b" },
     // Derived units:
     { unit: "N" },
@@ -462,102 +565,323 @@ export const baseSIUnits: readonly PreferredUnit[] = Object.freeze([
     { unit: "Wb" },
     { unit: "T" },
     { unit: "H" },
-    // {unit: "lm"},
-    // {unit: "lx"},
-    // {unit: "Bq"},
-    // {unit: "Gy"},
+    { unit: "lm" },
+    { unit: "lx" },
+    { unit: "Bq" },
+    { unit: "Gy" },
+    { unit: "Sv" },
 ]);
 
+/** The names of the built-in {@link unitSystems} */
+export type UnitSystemName = "SI" | "CGS" | "US customary" | "imperial";
+
 /**
- * Parse a single unit string, e.g. "km^2" -> {prefix: "k", unit: "m", power: 2}
+ * Systems of units that a quantity can be shown in, using {@link Quantity.toSystem}. Each system is a list of units,
+ * and the most compact combination of those units is used to represent each quantity. If two combinations are equally
+ * compact, the one that uses the units that come first in the list is used.
  *
- * This cannot parse compound units like "kg⋅m/s" or "m/s".
- * @param unitStr
+ * Dimensions that a system doesn't have its own units for (like electric current, in all of the non-SI systems here)
+ * use SI units. The "imperial" system differs from "US customary" in using imperial gallons for volume.
+ *
+ * Temperatures are picked using a unit for differences (like "deltaF"), so that "5 deltaC" is "9 deltaF", but
+ * {@link Quantity.toSystem} shows an absolute temperature (like "300 K" or "20 degC") using the matching unit with an
+ * offset ("degF"). If a list has a unit with an offset (like "degC"), it's only used on its own: in compound units,
+ * its unit for differences (like "deltaC") is used instead.
  */
-function parseSingleUnit(
-    unitStr: string,
-    additionalUnits?: Readonly<Record<string, Unit>>,
-): ParsedUnit {
-    const units: Record<string, Unit> = additionalUnits ? { ...builtInUnits, ...additionalUnits } : builtInUnits;
+export const unitSystems: Readonly<Record<UnitSystemName, readonly PreferredUnit[]>> = Object.freeze(
+    {
+        "SI": baseSIUnits,
+        "CGS": Object.freeze([
+            { unit: "g" },
+            { unit: "m", prefix: "c" },
+            { unit: "s" },
+            { unit: "K" },
+            { unit: "A" },
+            { unit: "mol" },
+            { unit: "cd" },
+            { unit: "b" },
+            { unit: "dyn" },
+            { unit: "Ba" },
+            { unit: "erg" },
+            { unit: "C" },
+            { unit: "V" },
+            { unit: "F" },
+            { unit: "ohm" },
+            { unit: "S" },
+            { unit: "Wb" },
+            { unit: "T" },
+            { unit: "H" },
+            { unit: "lm" },
+            { unit: "lx" },
+        ]),
+        "US customary": Object.freeze([
+            { unit: "lb" },
+            { unit: "ft" },
+            { unit: "s" },
+            { unit: "deltaF" },
+            { unit: "us_gal" },
+            { unit: "A" },
+            { unit: "mol" },
+            { unit: "cd" },
+            { unit: "b" },
+            { unit: "lbf" },
+            { unit: "psi" },
+            { unit: "HP" },
+            { unit: "C" },
+            { unit: "V" },
+            { unit: "F" },
+            { unit: "ohm" },
+            { unit: "S" },
+            { unit: "Wb" },
+            { unit: "T" },
+            { unit: "H" },
+            { unit: "lm" },
+            { unit: "lx" },
+        ]),
+        "imperial": Object.freeze([
+            { unit: "lb" },
+            { unit: "ft" },
+            { unit: "s" },
+            { unit: "deltaF" },
+            { unit: "uk_gal" },
+            { unit: "A" },
+            { unit: "mol" },
+            { unit: "cd" },
+            { unit: "b" },
+            { unit: "lbf" },
+            { unit: "psi" },
+            { unit: "HP" },
+            { unit: "C" },
+            { unit: "V" },
+            { unit: "F" },
+            { unit: "ohm" },
+            { unit: "S" },
+            { unit: "Wb" },
+            { unit: "T" },
+            { unit: "H" },
+            { unit: "lm" },
+            { unit: "lx" },
+        ]),
+    } satisfies Record<UnitSystemName, readonly PreferredUnit[]>,
+);
 
-    const caretPos = unitStr.indexOf("^");
-    // prefixedUnit: The unit possibly with a prefix, e.g. "km", "m", or "Kibit"
-    const prefixedUnit = caretPos === -1 ? unitStr : unitStr.substring(0, caretPos);
-    const power = caretPos === -1 ? 1 : Number(unitStr.substring(caretPos + 1));
+/**
+ * The SI units used for some kinds of quantities (see {@link Quantity.kind}), instead of the units that would normally
+ * be chosen for their dimensions. e.g. a torque is shown in "N⋅m", not "J".
+ */
+export const kindSIUnits: Readonly<Record<string, string>> = Object.freeze({
+    "torque": "N⋅m",
+    "energy": "J",
+    "frequency": "Hz",
+    "angular velocity": "rad/s",
+    "activity": "Bq",
+    "absorbed dose": "Gy",
+    "equivalent dose": "Sv",
+    "luminous flux": "lm",
+});
+
+/** Characters that are operators in a unit string, and which cannot be part of a unit name */
+const UNIT_OPERATOR_CHARS = "⋅·*/^()";
+const SUPERSCRIPT_DIGITS = "⁰¹²³⁴⁵⁶⁷⁸⁹";
+const SUPERSCRIPT_CHARS = SUPERSCRIPT_DIGITS + "⁺⁻";
+
+const WHITESPACE_REGEX = /\s+/y;
+/** A unit name (with or without a prefix), like "km" */
+const UNIT_NAME_REGEX = /[^\s⋅·*/^()⁰¹²³⁴⁵⁶⁷⁸⁹⁺⁻]+/y;
+
+function isUnitNameChar(char: string | undefined): boolean {
+    return char !== undefined && !/\s/.test(char) && !UNIT_OPERATOR_CHARS.includes(char) &&
+        !SUPERSCRIPT_CHARS.includes(char);
+}
 
-    if (power === 0 || !Number.isInteger(power)) { // If power is 0 or NaN or a float:
-        throw new QuantityError(`Invalid exponent/power on unit "${unitStr}"`);
+/**
+ * A simple recursive descent parser for unit strings like "kg⋅m/s^2", "kg/(m⋅s²)", or "m/s/s".
+ *
+ * From lowest to highest precedence, the supported operations are:
+ * - division (`/`), which applies to the whole product that follows it, so "kg/m⋅s^2" means "kg/(m⋅s^2)"
+ * - multiplication, using `⋅`, `·`, `*`, or just whitespace
+ * - exponents, using `^`, `**`, or superscripts like `²` or `⁻¹`
+ *
+ * "1" can be used as the numerator of a unit with no other units in the numerator, like "1/s".
+ */
+class UnitStringParser {
+    #pos = 0;
+    readonly #units: Readonly<Record<string, Unit>>;
+
+    constructor(readonly unitStr: string, additionalUnits?: Readonly<Record<string, Unit>>) {
+        this.#units = additionalUnits ? { ...builtInUnits, ...additionalUnits } : builtInUnits;
+    }
+
+    /** Parse the whole unit string */
+    parse(): ParsedUnit[] {
+        const result = this.#parseQuotient();
+        if (this.#peek() !== undefined) this.#unexpected();
+        return mergeParsedUnits(result);
+    }
+
+    /** Skip any whitespace and then return the next character, without consuming it */
+    #peek(): string | undefined {
+        WHITESPACE_REGEX.lastIndex = this.#pos;
+        if (WHITESPACE_REGEX.test(this.unitStr)) this.#pos = WHITESPACE_REGEX.lastIndex;
+        return this.unitStr[this.#pos];
     }
 
+    #unexpected(): never {
+        const char = this.unitStr[this.#pos];
+        throw new QuantityError(
+            char === undefined
+                ? `Unexpected end of the unit string "${this.unitStr}"`
+                : `Unexpected "${char}" at column ${this.#pos + 1} of the unit string "${this.unitStr}"`,
+        );
+    }
+
+    /** Parse division: `a/b/c` */
+    #parseQuotient(): ParsedUnit[] {
+        let result = this.#parseProduct();
+        while (this.#peek() === "/") {
+            this.#pos++;
+            result = result.concat(this.#parseProduct().map((u) => ({ ...u, power: -u.power })));
+        }
+        return result;
+    }
+
+    /** Parse multiplication: `a⋅b`, `a*b`, or `a b` */
+    #parseProduct(): ParsedUnit[] {
+        let result = this.#parsePower();
+        while (true) {
+            const char = this.#peek();
+            if (char === "⋅" || char === "·" || (char === "*" && this.unitStr[this.#pos + 1] !== "*")) {
+                this.#pos++;
+            } else if (!(char === "(" || isUnitNameChar(char))) {
+                break;
+            }
+            result = result.concat(this.#parsePower());
+        }
+        return result;
+    }
+
+    /** Parse exponents: `a^2`, `a**2`, or `a²` */
+    #parsePower(): ParsedUnit[] {
+        this.#peek(); // Skip any whitespace
+        const start = this.#pos;
+        const base = this.#parseAtom();
+        let exponent: string;
+        if (this.unitStr[this.#pos] === "^" || this.unitStr.startsWith("**", this.#pos)) {
+            this.#pos += this.unitStr[this.#pos] === "^" ? 1 : 2;
+            const exponentStart = this.#pos;
+            while (this.#pos < this.unitStr.length && !/[\s⋅·*/()]/.test(this.unitStr[this.#pos])) this.#pos++;
+            exponent = this.unitStr.substring(exponentStart, this.#pos).replace("\u2212", "-");
+        } else if (SUPERSCRIPT_CHARS.includes(this.unitStr[this.#pos])) {
+            exponent = "";
+            for (; SUPERSCRIPT_CHARS.includes(this.unitStr[this.#pos]); this.#pos++) {
+                const char = this.unitStr[this.#pos];
+                exponent += char === "⁻" ? "-" : char === "⁺" ? "+" : SUPERSCRIPT_DIGITS.indexOf(char);
+            }
+        } else {
+            return base;
+        }
+        const power = /^[-+]?\d+$/.test(exponent) ? Number(exponent) : NaN;
+        if (power === 0 || isNaN(power)) {
+            throw new QuantityError(`Invalid exponent/power on unit "${this.unitStr.substring(start, this.#pos)}"`);
+        }
+        return base.map((u) => ({ ...u, power: u.power * power }));
+    }
+
+    /** Parse a single unit like `km`, or a parenthesized unit string like `(m⋅s)` */
+    #parseAtom(): ParsedUnit[] {
+        const char = this.#peek();
+        if (char === "(") {
+            this.#pos++;
+            const result = this.#parseQuotient();
+            if (this.#peek() !== ")") this.#unexpected();
+            this.#pos++;
+            return result;
+        } else if (isUnitNameChar(char)) {
+            UNIT_NAME_REGEX.lastIndex = this.#pos;
+            const prefixedUnit = UNIT_NAME_REGEX.exec(this.unitStr)![0];
+            this.#pos += prefixedUnit.length;
+            return prefixedUnit === "1" ? [] : [parseSingleUnit(prefixedUnit, this.#units)];
+        }
+        this.#unexpected();
+    }
+}
+
+/**
+ * Parse a single unit string with no exponent, e.g. "km" -> {prefix: "k", unit: "m", power: 1}
+ */
+function parseSingleUnit(prefixedUnit: string, units: Readonly<Record<string, Unit>>): ParsedUnit {
     if (prefixedUnit in units) {
         // Easiest case: unit exists and is ready to use
-        return { unit: prefixedUnit, power };
+        return { unit: prefixedUnit, power: 1 };
     } else if (prefixedUnit[0] === "_") {
         // This represents a base unit in a custom dimension.
         // e.g. "_pax" is a custom unit with dimensionality of 1 in the "pax" dimension.
-        return { unit: prefixedUnit, power };
+        return { unit: prefixedUnit, power: 1 };
     } else {
         // Try some prefixes:
         const firstLetter = prefixedUnit[0];
         let rest = prefixedUnit.substring(1);
         if (firstLetter in prefixes && units[rest]?.prefixable) {
             // prefixedUnit is a length 1 prefix and unit combined.
-            return { prefix: firstLetter as Prefix, unit: rest, power };
+            return { prefix: firstLetter as Prefix, unit: rest, power: 1 };
         } else {
             const firstTwo = prefixedUnit.substring(0, 2);
             rest = prefixedUnit.substring(2);
             if (firstTwo in prefixes && units[rest]?.binaryPrefixable) {
                 // prefixedUnit is a length 2 (binary) prefix like "Ki" and unit combined.
-                return { prefix: firstTwo as Prefix, unit: rest, power };
+                return { prefix: firstTwo as Prefix, unit: rest, power: 1 };
             }
         }
     }
-    throw new QuantityError(`Unable to parse the unit "${unitStr}"`);
+    throw new QuantityError(`Unable to parse the unit "${prefixedUnit}"`);
 }
 
-const UNIT_SEPARATOR = /\s+|⋅/g;
+/** Combine repeated units, e.g. "m/s/s" is parsed as [m, s^-1, s^-1], which becomes [m, s^-2] */
+function mergeParsedUnits(units: readonly ParsedUnit[]): ParsedUnit[] {
+    const result: ParsedUnit[] = [];
+    for (const u of units) {
+        const existing = result.find((r) => r.unit === u.unit && r.prefix === u.prefix);
+        if (existing) {
+            existing.power += u.power;
+        } else {
+            result.push({ ...u });
+        }
+    }
+    return result.filter((u) => u.power !== 0);
+}
 
 /**
- * Parse a unit string, e.g. "km^2" or "kg⋅m/s^2" or "kg m / s^2"
+ * Parse a unit string, e.g. "km^2" or "kg⋅m/s^2" or "kg m / s^2".
+ *
+ * Also supports parentheses, multiple slashes, superscript exponents, and `*` or `**` for multiplication and
+ * exponents, e.g. "kg/(m⋅s^2)", "m/s/s", "m²", "s⁻¹", "kg*m", or "m**2".
  */
 export function parseUnits(
     unitStr: string,
     additionalUnits?: Readonly<Record<string, Unit>>,
 ): ParsedUnit[] {
-    const sections = unitStr.split("/");
-    if (sections.length > 2) {
-        throw new QuantityError(
-            `Cannot parse a unit with 2 or more "/" symbols: got "${unitStr}"`,
-        );
-    }
-
-    const numeratorParts = sections[0].trim().split(UNIT_SEPARATOR).map((
-        part,
-    ) => parseSingleUnit(part, additionalUnits));
-
-    const denominatorParts = sections[1]?.trim().split(UNIT_SEPARATOR).map((
-        part,
-    ) => parseSingleUnit(part, additionalUnits));
+    return new UnitStringParser(unitStr, additionalUnits).parse();
+}
 
-    if (denominatorParts) {
-        denominatorParts.forEach((x) => x.power *= -1);
-        return numeratorParts.concat(denominatorParts);
-    } else {
-        return numeratorParts;
-    }
+/** Convert an exponent like -12 to superscripts like "⁻¹²" */
+export function toSuperscript(n: number): string {
+    return Array.from(String(n), (char) => char === "-" ? "⁻" : SUPERSCRIPT_DIGITS[Number(char)]).join("");
 }
 
 /**
  * Convert a parsed unit array, e.g. from parseUnits(), back to a string like "kg⋅m/s^2"
+ *
+ * If `superscripts` is true, exponents are written using Unicode superscripts, like "kg⋅m/s²"
  */
-export function toUnitString(units: readonly ParsedUnit[]): string {
+export function toUnitString(units: readonly ParsedUnit[], options: { superscripts?: boolean } = {}): string {
+    const power = (n: number) => options.superscripts ? toSuperscript(n) : `^${n}`;
     const numerator: string[] = [];
     const denominator: string[] = [];
     for (const u of units) {
         if (u.power > 0) {
-            numerator.push((u.prefix ?? "") + u.unit + (u.power !== 1 ? `^${u.power}` : ""));
+            numerator.push((u.prefix ?? "") + u.unit + (u.power !== 1 ? power(u.power) : ""));
         } else {
-            denominator.push((u.prefix ?? "") + u.unit + (u.power !== -1 ? `^${(u.power * -1)}` : ""));
+            denominator.push((u.prefix ?? "") + u.unit + (u.power !== -1 ? power(u.power * -1) : ""));
         }
     }
     if (denominator.length) {
@@ -565,7 +889,7 @@ export function toUnitString(units: readonly ParsedUnit[]): string {
             return numerator.join("⋅") + "/" + denominator.join("⋅");
         } else {
             // Special rare case: If there's no numerator, just invert the denominator powers.
-            return units.map((u) => (u.prefix ?? "") + u.unit + `^${u.power}`).join("⋅");
+            return units.map((u) => (u.prefix ?? "") + u.unit + power(u.power)).join("⋅");
         }
     }
     return numerator.join("⋅");